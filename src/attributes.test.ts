@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { optionsFromAttributes, optionsFromElement } from './attributes';
+import CouponsWidget from './coupons-widget';
+
+function element(attributes: Record<string, string>): HTMLElement {
+  const div = document.createElement('div');
+  Object.entries(attributes).forEach(([name, value]) => div.setAttribute(name, value));
+  return div;
+}
+
+afterEach(() => {
+  delete (window as any).mapCoupons;
+  document.body.replaceChildren();
+});
+
+describe('optionsFromElement', () => {
+  it('приводит значения атрибутов к типам опций', () => {
+    (window as any).mapCoupons = (json: any) => json.items;
+
+    const options = optionsFromElement(element({
+      'data-isin': 'RU000A107RZ1',
+      'data-past-count': '4',
+      'data-show-all': '',
+      'data-cache': 'false',
+      'data-now': '2025-07-15',
+      'data-portfolio': '["RU000A107RZ1",{"isin":"RU000A105A95","quantity":10}]',
+      'data-map': 'mapCoupons',
+      'data-coupons-config': '{"futureCount":10,"pastCount":1}',
+    }));
+
+    expect(options).toEqual({
+      isin: 'RU000A107RZ1',
+      pastCount: 4,
+      futureCount: 10,
+      showAll: true,
+      cache: false,
+      now: new Date('2025-07-15'),
+      portfolio: ['RU000A107RZ1', { isin: 'RU000A105A95', quantity: 10 }],
+      mapData: (window as any).mapCoupons,
+    });
+  });
+
+  it('пропускает нечисловое значение числовой опции', () => {
+    expect(optionsFromElement(element({ 'data-quantity': 'много' }))).toEqual({});
+  });
+
+  it('отклоняет некорректный JSON ошибкой config', () => {
+    expect(() => optionsFromElement(element({ 'data-portfolio': '[RU000A107RZ1]' })))
+      .toThrow(expect.objectContaining({ type: 'config', details: 'data-portfolio' }));
+  });
+
+  it('отклоняет имя несуществующей глобальной функции', () => {
+    expect(() => optionsFromElement(element({ 'data-on-load': 'missingHandler' })))
+      .toThrow(expect.objectContaining({ type: 'config', details: 'data-on-load' }));
+  });
+});
+
+describe('optionsFromAttributes', () => {
+  it('читает атрибуты без префикса', () => {
+    expect(optionsFromAttributes(element({ isin: 'RU000A107RZ1', locale: 'en', config: '{"view":"table"}' })))
+      .toEqual({ isin: 'RU000A107RZ1', locale: 'en', view: 'table' });
+  });
+});
+
+describe('CouponsWidget.initAll', () => {
+  it('сообщает об ошибке атрибутов событием и создает остальные виджеты', () => {
+    const broken = element({ 'data-coupons-widget': '', 'data-data': '{oops' });
+    const valid = element({ 'data-coupons-widget': '', 'data-data': '[]' });
+    document.body.append(broken, valid);
+    const listener = vi.fn();
+    document.addEventListener('coupons-widget:error', listener);
+
+    const widgets = CouponsWidget.initAll(document.body);
+
+    document.removeEventListener('coupons-widget:error', listener);
+    expect(widgets).toHaveLength(1);
+    expect(CouponsWidget.getInstance(valid)).toBe(widgets[0]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].target).toBe(broken);
+    expect(listener.mock.calls[0][0].detail).toMatchObject({ type: 'config', message: 'Некорректные настройки виджета (data-data)' });
+    widgets[0].destroy();
+  });
+
+  it('сообщает об ошибке атрибутов на языке контейнера', () => {
+    const broken = element({ 'data-coupons-widget': '', 'data-locale': 'en', 'data-portfolio': '[RU000A107RZ1]' });
+    document.body.append(broken);
+    const listener = vi.fn();
+    broken.addEventListener('coupons-widget:error', listener);
+
+    CouponsWidget.initAll(document.body);
+
+    expect(listener.mock.calls[0][0].detail.message).toBe('Invalid widget configuration (data-portfolio)');
+  });
+});
@@ -0,0 +1,183 @@
+import type { CouponsWidgetOptions } from './coupons-widget';
+import { CouponsWidgetError } from './errors';
+
+/**
+ * Способ чтения значения опции из data-атрибута
+ */
+type AttributeKind = 'string' | 'number' | 'boolean' | 'date' | 'json' | 'function' | 'object' | 'provider';
+
+/**
+ * Опции, которые можно задать атрибутами (элемент-контейнер задается самим элементом)
+ */
+type AttributeOptions = Omit<CouponsWidgetOptions, 'container'>;
+
+/**
+ * Соответствие каждой опции и ее атрибута: [data-]<опция-в-kebab-case>.
+ * Тип требует описать все поля CouponsWidgetOptions.
+ */
+const OPTION_ATTRIBUTES: { [K in keyof AttributeOptions]-?: AttributeKind } = {
+  containerId: 'string',
+  shadow: 'boolean',
+  theme: 'string',
+  view: 'string',
+  viewSwitcher: 'boolean',
+  injectStyles: 'boolean',
+  isin: 'string',
+  url: 'string',
+  portfolio: 'json',
+  provider: 'provider',
+  mapData: 'function',
+  emptyMessage: 'string',
+  loadingMessage: 'string',
+  data: 'json',
+  locale: 'string',
+  messages: 'json',
+  ratePrecision: 'number',
+  amountPrecision: 'number',
+  pastCount: 'number',
+  futureCount: 'number',
+  showAll: 'boolean',
+  expandable: 'boolean',
+  estimateUnannounced: 'boolean',
+  focusableItems: 'boolean',
+  now: 'date',
+  calculator: 'boolean',
+  quantity: 'number',
+  incomeTax: 'boolean',
+  summary: 'boolean',
+  exportButtons: 'boolean',
+  price: 'number',
+  cache: 'boolean',
+  cacheTtl: 'number',
+  persistCache: 'boolean',
+  staleWhileRevalidate: 'boolean',
+  timeout: 'number',
+  retries: 'number',
+  retryDelay: 'number',
+  renderers: 'object',
+  onLoad: 'function',
+  onError: 'function',
+  onRender: 'function',
+  onItemClick: 'function',
+};
+
+/**
+ * Короткие имена атрибутов, поддерживаемые для совместимости
+ */
+const ATTRIBUTE_ALIASES: Record<string, keyof AttributeOptions> = {
+  map: 'mapData',
+};
+
+/**
+ * Опции виджета из data-атрибутов элемента.
+ * data-coupons-config задает JSON со всеми опциями, отдельные атрибуты его дополняют.
+ * Некорректный JSON или ненайденное глобальное значение - CouponsWidgetError типа config.
+ */
+export function optionsFromElement(element: HTMLElement): CouponsWidgetOptions {
+  return readOptions(element, 'data-', 'data-coupons-config');
+}
+
+/**
+ * Опции из атрибутов без префикса для <coupons-widget isin="..." locale="en">.
+ * JSON со всеми опциями задается атрибутом config.
+ */
+export function optionsFromAttributes(element: HTMLElement): CouponsWidgetOptions {
+  return readOptions(element, '', 'config');
+}
+
+/**
+ * Имена атрибутов без префикса, на изменение которых реагирует <coupons-widget>
+ */
+export const OBSERVED_ATTRIBUTES: string[] = [
+  'config',
+  ...Object.keys(ATTRIBUTE_ALIASES),
+  ...Object.keys(OPTION_ATTRIBUTES).map(kebabCase),
+];
+
+function readOptions(element: HTMLElement, prefix: string, configAttribute: string): CouponsWidgetOptions {
+  const read = (name: string) => element.getAttribute(prefix + name);
+  const options: Record<string, unknown> = {
+    ...parseJson(element.getAttribute(configAttribute), configAttribute),
+  };
+
+  Object.entries(ATTRIBUTE_ALIASES).forEach(([alias, option]) => {
+    const value = read(alias);
+    if (value !== null && read(kebabCase(option)) === null) {
+      assignOption(options, option, OPTION_ATTRIBUTES[option], value, prefix);
+    }
+  });
+
+  (Object.keys(OPTION_ATTRIBUTES) as (keyof AttributeOptions)[]).forEach(option => {
+    const value = read(kebabCase(option));
+    if (value !== null) {
+      assignOption(options, option, OPTION_ATTRIBUTES[option], value, prefix);
+    }
+  });
+
+  return options as CouponsWidgetOptions;
+}
+
+function assignOption(
+  options: Record<string, unknown>,
+  option: string,
+  kind: AttributeKind,
+  value: string,
+  prefix: string
+): void {
+  const parsed = parseAttribute(kind, value, prefix + kebabCase(option));
+  if (parsed !== undefined) {
+    options[option] = parsed;
+  }
+}
+
+function parseAttribute(kind: AttributeKind, value: string, attribute: string): unknown {
+  switch (kind) {
+    case 'number': {
+      const number = Number(value);
+      return value.trim() !== '' && Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      // Атрибут без значения включает опцию
+      return value !== 'false';
+    case 'date': {
+      // ГГГГ-ММ-ДД - полночь UTC, по Москве это тот же день
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? undefined : date;
+    }
+    case 'json':
+      return parseJson(value, attribute);
+    case 'function':
+    case 'object':
+      // Имя глобальной функции или объекта
+      return resolveGlobal(value, attribute);
+    case 'provider':
+      // 'moex', 'json' или имя глобальной функции/объекта
+      return value === 'moex' || value === 'json' ? value : resolveGlobal(value, attribute);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Поиск глобальной функции или объекта по имени из атрибута
+ */
+function resolveGlobal(name: string, attribute: string): unknown {
+  const value = name ? (window as any)[name] : undefined;
+  if (value === undefined) {
+    throw new CouponsWidgetError('config', `Глобальное значение "${name}" из ${attribute} не найдено`, undefined, attribute);
+  }
+  return value;
+}
+
+function parseJson(value: string | null, attribute: string): any {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new CouponsWidgetError('config', `Некорректный JSON в ${attribute}`, undefined, attribute);
+  }
+}
+
+function kebabCase(option: string): string {
+  return option.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
@@ -1,29 +1,44 @@
-import CouponsWidget from './coupons-widget';
+import CouponsWidget, { WIDGET_SELECTOR } from './coupons-widget';
+import { defineCouponsWidgetElement } from './coupons-widget-element';
 
 // Глобальная функция для создания виджета
 if (typeof window !== 'undefined') {
   (window as any).CouponsWidget = CouponsWidget;
 
-  // Счетчик для генерации уникальных ID
-  let widgetCounter = 0;
+  // Web Component <coupons-widget>
+  defineCouponsWidgetElement();
 
-  // Автоматическая инициализация при загрузке DOM
-  function autoInit() {
-    const containers = document.querySelectorAll('[data-coupons-widget]');
+  // Уничтожение виджетов в удаленных из документа узлах
+  function destroyRemoved(node: Node) {
+    if (!(node instanceof HTMLElement) || node.isConnected) return;
 
-    containers.forEach(container => {
-      const htmlContainer = container as HTMLElement;
-      const options = {
-        containerId: htmlContainer.id || `coupons-widget-${++widgetCounter}`,
-        isin: htmlContainer.dataset.isin || null
-      };
+    const elements = Array.from(node.querySelectorAll<HTMLElement>(WIDGET_SELECTOR));
+    if (node.matches(WIDGET_SELECTOR)) {
+      elements.push(node);
+    }
+    elements.forEach(element => CouponsWidget.getInstance(element)?.destroy());
+  }
 
-      if (!htmlContainer.id) {
-        htmlContainer.id = options.containerId;
-      }
+  // Отслеживание контейнеров, добавленных и удаленных после загрузки (SPA, CMS)
+  function observe() {
+    if (typeof MutationObserver === 'undefined') return;
+
+    new MutationObserver(mutations => {
+      mutations.forEach(mutation => {
+        mutation.addedNodes.forEach(node => {
+          if (node instanceof HTMLElement) {
+            CouponsWidget.initAll(node);
+          }
+        });
+        mutation.removedNodes.forEach(destroyRemoved);
+      });
+    }).observe(document.documentElement, { childList: true, subtree: true });
+  }
 
-      new CouponsWidget(options);
-    });
+  // Автоматическая инициализация при загрузке DOM
+  function autoInit() {
+    CouponsWidget.initAll(document);
+    observe();
   }
 
   // Запуск автоинициализации
@@ -34,4 +49,4 @@ if (typeof window !== 'undefined') {
   }
 }
 
-export default CouponsWidget;
\ No newline at end of file
+export default CouponsWidget;
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CouponData } from './coupons-widget';
+import { cacheKey, cachedLoad, clearCache, primeCache } from './cache';
+
+const OPTIONS = { ttl: 60000, persist: false, staleWhileRevalidate: true };
+
+function schedule(amount: number): CouponData[] {
+  return [{ type: 'coupon', date: new Date(2025, 6, 15), rate: 12, amount, currency: 'RUB' }];
+}
+
+beforeEach(() => {
+  clearCache();
+});
+
+describe('cachedLoad', () => {
+  it('объединяет одновременные загрузки одного ключа', async () => {
+    const loader = vi.fn(async () => schedule(30));
+    const key = cacheKey('moex/ru', 'RU000A107RZ1');
+
+    const [first, second] = await Promise.all([
+      cachedLoad(key, loader, OPTIONS),
+      cachedLoad(key, loader, OPTIONS),
+    ]);
+
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+  });
+
+  it('разделяет данные одного ISIN для разных областей', async () => {
+    await cachedLoad(cacheKey('moex/ru', 'RU000A107RZ1'), async () => schedule(30), OPTIONS);
+
+    const english = await cachedLoad(cacheKey('moex/en', 'RU000A107RZ1'), async () => schedule(31), OPTIONS);
+
+    expect(english[0].amount).toBe(31);
+  });
+
+  it('восстанавливает даты из localStorage', async () => {
+    const key = cacheKey('moex/ru', 'RU000A107RZ1');
+    primeCache(key, schedule(30), true);
+    clearMemory(key);
+
+    const data = await cachedLoad(key, async () => schedule(0), { ...OPTIONS, persist: true });
+
+    expect(data[0].amount).toBe(30);
+    expect(data[0].date).toEqual(new Date(2025, 6, 15));
+  });
+});
+
+describe('clearCache', () => {
+  it('удаляет источник во всех областях', async () => {
+    primeCache(cacheKey('moex/ru', 'RU000A107RZ1'), schedule(30), true);
+    primeCache(cacheKey('moex/en', 'RU000A107RZ1'), schedule(30));
+    primeCache(cacheKey('moex/ru', 'RU000A105A95'), schedule(30));
+
+    clearCache('RU000A107RZ1');
+
+    const loader = vi.fn(async () => schedule(0));
+    await cachedLoad(cacheKey('moex/ru', 'RU000A107RZ1'), loader, { ...OPTIONS, persist: true });
+    await cachedLoad(cacheKey('moex/en', 'RU000A107RZ1'), loader, OPTIONS);
+    await cachedLoad(cacheKey('moex/ru', 'RU000A105A95'), loader, OPTIONS);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('находит источник-URL с двоеточием', async () => {
+    const url = 'https://example.com/coupons.json';
+    primeCache(cacheKey('json', url), schedule(30));
+
+    clearCache(url);
+
+    const loader = vi.fn(async () => schedule(0));
+    await cachedLoad(cacheKey('json', url), loader, OPTIONS);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+});
+
+/**
+ * Сброс только кэша в памяти: запись остается в localStorage
+ */
+function clearMemory(key: string): void {
+  const stored = localStorage.getItem(`coupons-widget:${key}`);
+  clearCache();
+  localStorage.setItem(`coupons-widget:${key}`, stored!);
+}
@@ -0,0 +1,250 @@
+import type { CouponData } from './coupons-widget';
+import { abortedError } from './http';
+
+/**
+ * Настройки кэширования загрузки
+ */
+export interface CacheOptions {
+  ttl: number;
+  persist: boolean;
+  staleWhileRevalidate: boolean;
+}
+
+/**
+ * Запись кэша с временем получения данных
+ */
+interface CacheEntry {
+  data: CouponData[];
+  timestamp: number;
+}
+
+/**
+ * Общий незавершенный запрос и число ожидающих его виджетов
+ */
+interface PendingRequest {
+  promise: Promise<CouponData[]>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+/**
+ * Загрузчик данных, получающий сигнал отмены общего запроса
+ */
+export type CacheLoader = (signal: AbortSignal) => Promise<CouponData[]>;
+
+const STORAGE_PREFIX = 'coupons-widget:';
+
+// Общий для всех экземпляров виджета кэш и незавершенные запросы
+const memoryCache = new Map<string, CacheEntry>();
+const pendingRequests = new Map<string, PendingRequest>();
+
+/**
+ * Ключ кэша: источник (ISIN или URL) в области провайдера и языка ISS.
+ * Один ISIN у разных провайдеров, функций преобразования и языков - разные данные.
+ */
+export function cacheKey(scope: string, source: string): string {
+  return `${scope}:${source}`;
+}
+
+/**
+ * Загрузка через кэш: свежие данные отдаются сразу, одинаковые
+ * одновременные запросы объединяются в один. Устаревшие данные при
+ * staleWhileRevalidate отдаются сразу, а свежие приходят в onRevalidate.
+ * Общий запрос отменяется, только когда его отменили все ожидающие.
+ */
+export async function cachedLoad(
+  key: string,
+  loader: CacheLoader,
+  options: CacheOptions,
+  onRevalidate?: (data: CouponData[]) => void,
+  signal?: AbortSignal
+): Promise<CouponData[]> {
+  const entry = readEntry(key, options.persist);
+
+  if (entry) {
+    if (Date.now() - entry.timestamp < options.ttl) {
+      return entry.data;
+    }
+
+    if (options.staleWhileRevalidate) {
+      fetchShared(key, loader, options.persist)
+        .then(data => onRevalidate?.(data))
+        .catch(() => {
+          // Остаемся на устаревших данных
+        });
+      return entry.data;
+    }
+  }
+
+  return fetchShared(key, loader, options.persist, signal);
+}
+
+/**
+ * Очистка кэша целиком или по источнику (ISIN или URL) во всех областях
+ */
+export function clearCache(source?: string): void {
+  if (source === undefined) {
+    memoryCache.clear();
+    storageKeys().forEach(storageKey => removeStorage(storageKey));
+    return;
+  }
+
+  Array.from(memoryCache.keys())
+    .filter(key => sourceOf(key) === source)
+    .forEach(key => memoryCache.delete(key));
+  storageKeys()
+    .filter(storageKey => sourceOf(storageKey.slice(STORAGE_PREFIX.length)) === source)
+    .forEach(storageKey => removeStorage(storageKey));
+}
+
+/**
+ * Предварительное заполнение кэша данными
+ */
+export function primeCache(key: string, data: CouponData[], persist: boolean = false): void {
+  writeEntry(key, { data, timestamp: Date.now() }, persist);
+}
+
+/**
+ * Один общий запрос на ключ
+ */
+function fetchShared(
+  key: string,
+  loader: CacheLoader,
+  persist: boolean,
+  signal?: AbortSignal
+): Promise<CouponData[]> {
+  let pending = pendingRequests.get(key);
+
+  if (!pending) {
+    const controller = new AbortController();
+    const request: PendingRequest = {
+      controller,
+      subscribers: 0,
+      promise: loader(controller.signal)
+        .then(data => {
+          writeEntry(key, { data, timestamp: Date.now() }, persist);
+          return data;
+        })
+        .finally(() => {
+          if (pendingRequests.get(key) === request) {
+            pendingRequests.delete(key);
+          }
+        }),
+    };
+    pendingRequests.set(key, request);
+    pending = request;
+  }
+
+  return subscribe(key, pending, signal);
+}
+
+/**
+ * Подписка на общий запрос с собственным сигналом отмены
+ */
+function subscribe(key: string, pending: PendingRequest, signal?: AbortSignal): Promise<CouponData[]> {
+  pending.subscribers++;
+
+  if (!signal) {
+    return pending.promise;
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      pending.subscribers--;
+      if (pending.subscribers === 0) {
+        pending.controller.abort();
+        if (pendingRequests.get(key) === pending) {
+          pendingRequests.delete(key);
+        }
+      }
+      reject(abortedError());
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    pending.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Источник из ключа кэша (область не содержит двоеточий, URL - может)
+ */
+function sourceOf(key: string): string {
+  return key.slice(key.indexOf(':') + 1);
+}
+
+function readEntry(key: string, persist: boolean): CacheEntry | null {
+  const cached = memoryCache.get(key);
+  if (cached || !persist) {
+    return cached || null;
+  }
+
+  const stored = readStorage(STORAGE_PREFIX + key);
+  if (stored) {
+    memoryCache.set(key, stored);
+  }
+  return stored;
+}
+
+function writeEntry(key: string, entry: CacheEntry, persist: boolean): void {
+  memoryCache.set(key, entry);
+  if (persist) {
+    writeStorage(STORAGE_PREFIX + key, entry);
+  }
+}
+
+// localStorage может быть недоступен (приватный режим, квота, SSR)
+
+function readStorage(storageKey: string): CacheEntry | null {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    if (!raw) return null;
+
+    const entry = JSON.parse(raw);
+    if (!Array.isArray(entry?.data) || typeof entry.timestamp !== 'number') {
+      return null;
+    }
+
+    // Даты в JSON хранятся строками
+    return {
+      timestamp: entry.timestamp,
+      data: entry.data.map((item: CouponData) => ({
+        ...item,
+        date: new Date(item.date),
+        ...(item.startDate ? { startDate: new Date(item.startDate) } : {}),
+      })),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(storageKey: string, entry: CacheEntry): void {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(entry));
+  } catch {
+    // Кэш в памяти продолжает работать
+  }
+}
+
+function removeStorage(storageKey: string): void {
+  try {
+    localStorage.removeItem(storageKey);
+  } catch {
+    // Нечего удалять
+  }
+}
+
+function storageKeys(): string[] {
+  try {
+    return Object.keys(localStorage).filter(key => key.startsWith(STORAGE_PREFIX));
+  } catch {
+    return [];
+  }
+}
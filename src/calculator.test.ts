@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import type { CouponData } from './coupons-widget';
+import { calculateIncome } from './calculator';
+
+const NOW = new Date('2025-04-15T12:00:00+03:00');
+
+const SCHEDULE: CouponData[] = [
+  { type: 'coupon', date: new Date(2025, 0, 15), rate: 10, amount: 50, currency: 'RUB' },
+  { type: 'coupon', date: new Date(2025, 6, 15), rate: 10, amount: 50, currency: 'RUB' },
+  { type: 'offer', date: new Date(2025, 6, 15), rate: 100, amount: null, currency: 'RUB' },
+  { type: 'coupon', date: new Date(2026, 6, 15), rate: 10, amount: 50, currency: 'RUB' },
+  { type: 'maturity', date: new Date(2026, 6, 15), rate: 100, amount: 1000, currency: 'RUB' },
+];
+
+describe('calculateIncome', () => {
+  it('суммирует предстоящие выплаты на количество облигаций', () => {
+    expect(calculateIncome(SCHEDULE, { quantity: 10, incomeTax: false, now: NOW }))
+      .toEqual({ nextYear: 500, untilMaturity: 11000, currency: 'RUB' });
+  });
+
+  it('вычитает НДФЛ только из купонов', () => {
+    expect(calculateIncome(SCHEDULE, { quantity: 1, incomeTax: true, now: NOW }))
+      .toEqual({ nextYear: 43.5, untilMaturity: 1087, currency: 'RUB' });
+  });
+
+  it('не складывает выплаты в разных валютах', () => {
+    const data: CouponData[] = [
+      ...SCHEDULE,
+      { type: 'coupon', date: new Date(2025, 9, 3), rate: 4.5, amount: 22.5, currency: 'USD' },
+    ];
+
+    expect(calculateIncome(data, { quantity: 1, incomeTax: false, now: NOW }))
+      .toEqual({ nextYear: 50, untilMaturity: 1100, currency: 'RUB' });
+  });
+});
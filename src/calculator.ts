@@ -0,0 +1,60 @@
+import type { CouponData } from './coupons-widget';
+import { exchangeToday } from './dates';
+import { isCoupon, roundAmount } from './schedule';
+
+/**
+ * Ставка НДФЛ для купонного дохода
+ */
+export const INCOME_TAX_RATE = 0.13;
+
+/**
+ * Параметры расчета дохода по позиции
+ */
+export interface IncomeOptions {
+  quantity: number;
+  // Вычитать НДФЛ из купонов (погашение номинала налогом не облагается)
+  incomeTax: boolean;
+  now?: Date;
+}
+
+/**
+ * Доход по позиции из графика выплат
+ */
+export interface IncomeTotals {
+  nextYear: number;
+  untilMaturity: number;
+  // Валюта ближайшей выплаты: выплаты в других валютах в итоги не входят
+  currency: string;
+}
+
+/**
+ * Сумма предстоящих купонов, амортизаций и погашения для quantity облигаций:
+ * за ближайшие 12 месяцев и до конца графика
+ */
+export function calculateIncome(data: CouponData[], options: IncomeOptions): IncomeTotals {
+  const today = exchangeToday(options.now);
+  const yearEnd = new Date(today);
+  yearEnd.setFullYear(yearEnd.getFullYear() + 1);
+
+  const quantity = Math.max(0, Math.floor(options.quantity));
+  const totals: IncomeTotals = { nextYear: 0, untilMaturity: 0, currency: '' };
+
+  data.forEach(item => {
+    if (item.type === 'offer' || item.amount === null || item.date < today) return;
+    // Суммы в разных валютах не складываются
+    if (totals.currency && item.currency !== totals.currency) return;
+
+    const taxFactor = isCoupon(item) && options.incomeTax ? 1 - INCOME_TAX_RATE : 1;
+    const payment = item.amount * quantity * taxFactor;
+
+    totals.untilMaturity += payment;
+    if (item.date < yearEnd) {
+      totals.nextYear += payment;
+    }
+    totals.currency = totals.currency || item.currency;
+  });
+
+  totals.nextYear = roundAmount(totals.nextYear);
+  totals.untilMaturity = roundAmount(totals.untilMaturity);
+  return totals;
+}
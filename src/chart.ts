@@ -0,0 +1,179 @@
+import ElementBuilder, { EnhancedSvgElement } from './element-builder';
+import type { CouponData } from './coupons-widget';
+import type { CouponFormatter } from './format';
+import type { WidgetMessages } from './i18n';
+import { isCoupon } from './schedule';
+
+/**
+ * Зависимости графика от виджета
+ */
+export interface ChartContext {
+  formatter: CouponFormatter;
+  messages: WidgetMessages;
+}
+
+/**
+ * Дата графика со всеми выплатами в этот день
+ */
+interface ChartSlot {
+  date: Date;
+  coupon: CouponData | null;
+  principal: CouponData | null;
+}
+
+// Размеры в единицах viewBox: SVG растягивается по ширине контейнера
+const WIDTH = 480;
+const PADDING = 8;
+const LABEL_HEIGHT = 18;
+const COUPON_BAND = 120;
+const PRINCIPAL_BAND = 50;
+const AXIS_HEIGHT = 18;
+
+/**
+ * Столбчатая SVG-диаграмма выплат: купоны и погашения номинала в отдельных полосах
+ * со своим масштабом, чтобы крупное погашение не скрывало изменения купона
+ */
+export function createChart(data: CouponData[], context: ChartContext): EnhancedSvgElement<'svg'> {
+  const slots = collectSlots(data);
+  const hasPrincipal = slots.some(slot => slot.principal);
+
+  const couponTop = LABEL_HEIGHT;
+  const principalTop = couponTop + COUPON_BAND + LABEL_HEIGHT;
+  const axisTop = hasPrincipal ? principalTop + PRINCIPAL_BAND : couponTop + COUPON_BAND;
+  const height = axisTop + AXIS_HEIGHT;
+
+  const slotWidth = (WIDTH - PADDING * 2) / Math.max(slots.length, 1);
+  const barWidth = Math.max(1, slotWidth * 0.7);
+  const maxCoupon = Math.max(0, ...slots.map(slot => slot.coupon?.amount ?? 0));
+  const maxPrincipal = Math.max(0, ...slots.map(slot => slot.principal?.amount ?? 0));
+
+  const svg = ElementBuilder.createSvg('svg')
+    .addClass('chart')
+    .setAttr({
+      viewBox: `0 0 ${WIDTH} ${height}`,
+      width: '100%',
+      role: 'img',
+      'aria-label': context.messages.chartCoupons,
+    });
+
+  svg.addChild(label(context.messages.chartCoupons, couponTop - 5));
+  if (hasPrincipal) {
+    svg.addChild(label(context.messages.chartPrincipal, principalTop - 5));
+  }
+
+  slots.forEach((slot, index) => {
+    const x = PADDING + index * slotWidth + (slotWidth - barWidth) / 2;
+
+    if (slot.coupon) {
+      svg.addChild(bar(slot.coupon, x, barWidth, couponTop, COUPON_BAND, maxCoupon, context));
+    }
+    if (slot.principal) {
+      svg.addChild(bar(slot.principal, x, barWidth, principalTop, PRINCIPAL_BAND, maxPrincipal, context));
+    }
+
+    // Подпись года под первой выплатой года
+    const year = slot.date.getFullYear();
+    if (index === 0 || slots[index - 1].date.getFullYear() !== year) {
+      svg.addChild(ElementBuilder.createSvg('text')
+        .addClass('chart-axis')
+        .setAttr({ x: String(PADDING + index * slotWidth), y: String(axisTop + 13) })
+        .setText(String(year)));
+    }
+  });
+
+  return svg;
+}
+
+/**
+ * Группировка купонов и погашений по датам; оферты на диаграмме не показываются.
+ * Выплаты нескольких облигаций портфеля в одну дату суммируются.
+ */
+function collectSlots(data: CouponData[]): ChartSlot[] {
+  const slots = new Map<number, ChartSlot>();
+
+  data.forEach(item => {
+    if (item.type === 'offer') return;
+
+    const key = item.date.getTime();
+    let slot = slots.get(key);
+    if (!slot) {
+      slot = { date: item.date, coupon: null, principal: null };
+      slots.set(key, slot);
+    }
+
+    if (isCoupon(item)) {
+      slot.coupon = combine(slot.coupon, item);
+    } else {
+      slot.principal = combine(slot.principal, item);
+    }
+  });
+
+  return Array.from(slots.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+function combine(existing: CouponData | null, item: CouponData): CouponData {
+  if (!existing) return item;
+
+  return {
+    ...existing,
+    // Ставки разных облигаций не складываются
+    rate: null,
+    amount: existing.amount === null || item.amount === null ? null : existing.amount + item.amount,
+    current: Boolean(existing.current || item.current),
+    disabled: Boolean(existing.disabled && item.disabled),
+    estimated: Boolean(existing.estimated || item.estimated),
+  };
+}
+
+function bar(
+  item: CouponData,
+  x: number,
+  width: number,
+  top: number,
+  bandHeight: number,
+  maxAmount: number,
+  context: ChartContext
+): EnhancedSvgElement<'rect'> {
+  const coupon = isCoupon(item);
+  // Неизвестная сумма - контур на всю высоту полосы
+  const unknown = item.amount === null || maxAmount === 0;
+  const barHeight = unknown ? bandHeight : Math.max(1, item.amount! / maxAmount * bandHeight);
+
+  const rect = ElementBuilder.createSvg('rect')
+    .addClass(['chart-bar', coupon ? 'coupon' : 'amortization'])
+    .setAttr({
+      x: x.toFixed(2),
+      y: (top + bandHeight - barHeight).toFixed(2),
+      width: width.toFixed(2),
+      height: barHeight.toFixed(2),
+    });
+
+  if (item.current) rect.addClass('current');
+  if (item.disabled) rect.addClass('past');
+  if (unknown) rect.addClass('unknown');
+  if (item.estimated) rect.addClass('estimated');
+
+  return rect.addChild(ElementBuilder.createSvg('title').setText(tooltip(item, coupon, context)));
+}
+
+/**
+ * Текст всплывающей подсказки столбца
+ */
+function tooltip(item: CouponData, coupon: boolean, { formatter, messages }: ChartContext): string {
+  const date = formatter.date(item.date);
+  const amount = formatter.amount(item.amount, item.currency);
+
+  if (coupon) {
+    const estimate = item.estimated ? ` (${messages.estimate})` : '';
+    return `${date}\n${messages.rate} ${formatter.rate(item.rate)}\n${messages.amount} ${amount}${estimate}`;
+  }
+  const title = item.type === 'maturity' ? messages.maturity : messages.amortization;
+  return `${date}\n${title}: ${amount}`;
+}
+
+function label(text: string, y: number): EnhancedSvgElement<'text'> {
+  return ElementBuilder.createSvg('text')
+    .addClass('chart-label')
+    .setAttr({ x: String(PADDING), y: String(y) })
+    .setText(text);
+}
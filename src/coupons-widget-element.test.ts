@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CouponsWidgetElement, defineCouponsWidgetElement } from './coupons-widget-element';
+
+const DATA = [{ paymentDate: '15.07.2025', rate: '12%', amount: '30 ₽' }];
+
+afterEach(() => {
+  document.body.replaceChildren();
+  vi.restoreAllMocks();
+});
+
+describe('<coupons-widget>', () => {
+  it('отражает источник load() в атрибуте без пересоздания', async () => {
+    defineCouponsWidgetElement();
+    const element = document.createElement('coupons-widget') as CouponsWidgetElement;
+    element.setAttribute('isin', 'RU000A107RZ1');
+    element.setAttribute('cache', 'false');
+    document.body.append(element);
+    const widget = element.instance!;
+    const load = vi.spyOn(widget, 'load').mockResolvedValue();
+
+    await element.load('RU000A105A95');
+    await Promise.resolve();
+
+    expect(load).toHaveBeenCalledWith('RU000A105A95');
+    expect(element.getAttribute('isin')).toBe('RU000A105A95');
+    expect(element.instance).toBe(widget);
+
+    await element.load('/api/coupons.json');
+
+    expect(element.getAttribute('url')).toBe('/api/coupons.json');
+    expect(element.hasAttribute('isin')).toBe(false);
+  });
+
+  it('принимает данные, заданные до регистрации элемента', () => {
+    const element = document.createElement('coupons-widget-early') as any;
+    element.data = DATA;
+    document.body.append(element);
+
+    defineCouponsWidgetElement('coupons-widget-early');
+
+    expect(element.instance).not.toBeNull();
+    expect(element.data.map((item: { amount: number }) => item.amount)).toEqual([30]);
+  });
+});
@@ -0,0 +1,152 @@
+import CouponsWidget, { CouponData, CouponDataInput } from './coupons-widget';
+import { OBSERVED_ATTRIBUTES, optionsFromAttributes } from './attributes';
+import { dispatchCreateError } from './events';
+import { PortfolioPosition } from './portfolio';
+import { isUrl } from './providers';
+
+// Базовый класс недоступен вне браузера (SSR)
+const BaseElement: typeof HTMLElement = typeof HTMLElement !== 'undefined'
+  ? HTMLElement
+  : class { } as unknown as typeof HTMLElement;
+
+/**
+ * Web Component <coupons-widget isin="RU000A0JXPG2" locale="en">
+ */
+export class CouponsWidgetElement extends BaseElement {
+  static get observedAttributes(): string[] {
+    return OBSERVED_ATTRIBUTES;
+  }
+
+  private widget: CouponsWidget | null = null;
+  private pendingData: CouponDataInput[] | null = null;
+  private pendingPortfolio: PortfolioPosition[] | null = null;
+  private updateScheduled = false;
+  private reflecting = false;
+
+  connectedCallback(): void {
+    // Свойства, заданные до регистрации элемента, перекрывают сеттеры класса
+    this.upgradeProperty('data');
+    this.upgradeProperty('portfolio');
+    this.createWidget();
+  }
+
+  disconnectedCallback(): void {
+    this.widget?.destroy();
+    this.widget = null;
+  }
+
+  attributeChangedCallback(_name: string, oldValue: string | null, newValue: string | null): void {
+    if (oldValue === newValue || !this.widget || this.updateScheduled || this.reflecting) return;
+
+    // Несколько изменений атрибутов подряд - одно пересоздание
+    this.updateScheduled = true;
+    queueMicrotask(() => {
+      this.updateScheduled = false;
+      if (this.isConnected) {
+        this.createWidget();
+      }
+    });
+  }
+
+  /**
+   * Текущие данные графика
+   */
+  get data(): CouponData[] {
+    return this.widget ? this.widget.getData() : [];
+  }
+
+  set data(value: CouponDataInput[]) {
+    this.pendingData = value;
+    this.widget?.updateData(value);
+  }
+
+  /**
+   * Позиции портфеля, заданные свойством
+   */
+  get portfolio(): PortfolioPosition[] {
+    return this.pendingPortfolio || [];
+  }
+
+  set portfolio(value: PortfolioPosition[]) {
+    this.pendingPortfolio = value;
+    this.widget?.loadPortfolio(value);
+  }
+
+  /**
+   * Загрузка по ISIN или URL. Источник отражается в атрибуте isin или url,
+   * чтобы следующее пересоздание по атрибутам не вернуло прежний.
+   */
+  public load(isinOrUrl: string): Promise<void> {
+    if (!this.widget) {
+      return Promise.reject(new Error('Элемент coupons-widget не подключен к документу'));
+    }
+    this.pendingData = null;
+    this.pendingPortfolio = null;
+    this.reflectSource(isinOrUrl);
+    return this.widget.load(isinOrUrl);
+  }
+
+  /**
+   * Экземпляр CouponsWidget внутри элемента
+   */
+  get instance(): CouponsWidget | null {
+    return this.widget;
+  }
+
+  /**
+   * Запись источника в атрибуты без пересоздания виджета
+   */
+  private reflectSource(isinOrUrl: string): void {
+    this.reflecting = true;
+    try {
+      this.setAttribute(isUrl(isinOrUrl) ? 'url' : 'isin', isinOrUrl);
+      this.removeAttribute(isUrl(isinOrUrl) ? 'isin' : 'url');
+      this.removeAttribute('portfolio');
+    } finally {
+      this.reflecting = false;
+    }
+  }
+
+  /**
+   * Перенос значения свойства экземпляра на сеттер класса
+   */
+  private upgradeProperty(name: 'data' | 'portfolio'): void {
+    if (Object.prototype.hasOwnProperty.call(this, name)) {
+      const properties = this as unknown as Record<string, unknown>;
+      const value = properties[name];
+      delete properties[name];
+      properties[name] = value;
+    }
+  }
+
+  /**
+   * Пересоздание виджета по атрибутам; ошибка атрибутов - событие coupons-widget:error на элементе
+   */
+  private createWidget(): void {
+    this.widget?.destroy();
+    this.widget = null;
+    try {
+      this.widget = new CouponsWidget({
+        ...optionsFromAttributes(this),
+        ...(this.pendingData ? { data: this.pendingData } : {}),
+        ...(this.pendingPortfolio ? { portfolio: this.pendingPortfolio } : {}),
+        container: this,
+      });
+    } catch (error) {
+      dispatchCreateError(this, error, this.getAttribute('locale') || undefined);
+    }
+  }
+}
+
+/**
+ * Регистрация элемента <coupons-widget>
+ */
+export function defineCouponsWidgetElement(tagName: string = 'coupons-widget'): void {
+  if (typeof customElements !== 'undefined' && !customElements.get(tagName)) {
+    // Один класс нельзя зарегистрировать под двумя именами
+    customElements.define(
+      tagName,
+      tagName === 'coupons-widget' ? CouponsWidgetElement : class extends CouponsWidgetElement { }
+    );
+  }
+}
@@ -0,0 +1,223 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import CouponsWidget, { CouponsWidgetOptions } from './coupons-widget';
+import type { CouponDataInput } from './coupons-widget';
+
+const NOW = new Date('2025-04-15T12:00:00+03:00');
+
+const SCHEDULE: CouponDataInput[] = [
+  { type: 'coupon', date: new Date(2025, 6, 15), startDate: new Date(2025, 0, 15), rate: 10, amount: 50, faceValue: 1000, currency: 'RUB' },
+  { type: 'maturity', date: new Date(2026, 0, 15), rate: 100, amount: 1000, currency: 'RUB' },
+];
+
+/**
+ * Виджет в новом контейнере документа
+ */
+function createWidget(options: CouponsWidgetOptions): { widget: CouponsWidget; container: HTMLElement } {
+  const container = document.createElement('div');
+  document.body.append(container);
+  return { widget: new CouponsWidget({ container, now: NOW, cache: false, ...options }), container };
+}
+
+/**
+ * Promise с внешним resolve
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => { resolve = done; });
+  return { promise, resolve };
+}
+
+/**
+ * Завершение ожидающих промисов
+ */
+function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve));
+}
+
+afterEach(() => {
+  document.body.replaceChildren();
+  CouponsWidget.clearCache();
+  vi.unstubAllGlobals();
+});
+
+describe('сводка', () => {
+  it('показывает график до загрузки цены и дополняет сводку ценой', async () => {
+    const price = deferred<number | null>();
+    const { widget, container } = createWidget({
+      isin: 'RU000A107RZ1',
+      summary: true,
+      provider: { load: async () => SCHEDULE, loadPrice: () => price.promise },
+    });
+
+    await flush();
+
+    expect(container.querySelectorAll('[role="listitem"]')).toHaveLength(2);
+    expect(container.querySelector('.summary .price')).toBeNull();
+
+    price.resolve(100);
+    await flush();
+
+    expect(widget.getPrice()).toBe(100);
+    expect(container.querySelector('.summary .price')).not.toBeNull();
+    widget.destroy();
+  });
+});
+
+describe('портфель', () => {
+  it('показывает ошибку некорректной позиции и сообщает о ней событием', async () => {
+    const onError = vi.fn();
+    const { widget, container } = createWidget({
+      portfolio: JSON.parse('[{"quantity":10}]'),
+      locale: 'en',
+      provider: { load: async () => SCHEDULE },
+      onError,
+    });
+
+    await flush();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ type: 'config' }));
+    expect(container.querySelector('.error')!.textContent).toContain('Invalid widget configuration (portfolio[0])');
+    expect(container.querySelector('.error')).not.toBeNull();
+    expect(container.hasAttribute('aria-busy')).toBe(false);
+    widget.destroy();
+  });
+
+  it('не умножает суммы портфеля на количество повторно и не выводит калькулятор', async () => {
+    const { widget, container } = createWidget({
+      portfolio: [{ isin: 'RU000A107RZ1', quantity: 10 }],
+      provider: { load: async () => SCHEDULE },
+      calculator: true,
+      quantity: 10,
+    });
+
+    await flush();
+
+    expect(widget.getIncome()).toEqual({ nextYear: 10500, untilMaturity: 10500, currency: 'RUB' });
+    expect(container.querySelector('.calculator')).toBeNull();
+    widget.destroy();
+  });
+});
+
+describe('статусы', () => {
+  it('пересчитываются по now для данных из кэша', async () => {
+    const load = vi.fn(async () => SCHEDULE);
+    // Кэш общий для виджетов с тем же провайдером
+    const provider = { load };
+    const first = createWidget({ isin: 'RU000A107RZ1', cache: true, provider });
+    await flush();
+    first.widget.destroy();
+
+    const { widget, container } = createWidget({
+      isin: 'RU000A107RZ1',
+      cache: true,
+      provider,
+      now: new Date('2025-07-15T12:00:00+03:00'),
+    });
+    await flush();
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(widget.getData().map(item => item.status)).toEqual(['today', 'future']);
+    expect(container.querySelector('.today')).not.toBeNull();
+    widget.destroy();
+  });
+
+  it('учитывают флаги current и disabled из данных', () => {
+    const data: CouponDataInput[] = [{ ...SCHEDULE[0], disabled: true }, { ...SCHEDULE[1], current: true }];
+    const { widget, container } = createWidget({ data });
+
+    const rows = container.querySelectorAll<HTMLElement>('[data-key]');
+    expect(rows[0].classList.contains('disabled')).toBe(true);
+    expect(rows[0].classList.contains('current')).toBe(false);
+    expect(rows[1].classList.contains('current')).toBe(true);
+    expect(rows[1].getAttribute('aria-current')).toBe('true');
+    expect(widget.getData().map(item => [item.current, item.disabled])).toEqual([[undefined, true], [true, undefined]]);
+    widget.destroy();
+  });
+});
+
+describe('калькулятор', () => {
+  it('показывает количество из setQuantity после ввода в поле', () => {
+    const { widget, container } = createWidget({ data: SCHEDULE, calculator: true });
+    const input = container.querySelector<HTMLInputElement>('.calculator-quantity input')!;
+    input.value = '3';
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+
+    widget.setQuantity(7);
+
+    expect(container.querySelector('.calculator-quantity input')).toBe(input);
+    expect(input.value).toBe('7');
+    widget.destroy();
+  });
+});
+
+describe('клавиатура', () => {
+  it('вызывает itemClick по Enter для подписки через on()', () => {
+    const { widget, container } = createWidget({ data: SCHEDULE });
+    const onItemClick = vi.fn();
+    widget.on('itemClick', onItemClick);
+
+    const row = container.querySelector<HTMLElement>('[data-key]')!;
+    row.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+
+    expect(row.tabIndex).toBe(0);
+    expect(onItemClick).toHaveBeenCalledWith(expect.objectContaining({ element: row }));
+    widget.destroy();
+  });
+
+  it('не добавляет записи в порядок табуляции с focusableItems: false', () => {
+    const { widget, container } = createWidget({ data: SCHEDULE, focusableItems: false });
+
+    expect(container.querySelector('[data-key]')!.hasAttribute('tabindex')).toBe(false);
+    widget.destroy();
+  });
+});
+
+describe('ключи записей', () => {
+  it('различают записи одного типа в один день', () => {
+    const data: CouponDataInput[] = [
+      { type: 'coupon', date: new Date(2025, 6, 15), rate: 10, amount: 50, currency: 'RUB' },
+      { type: 'coupon', date: new Date(2025, 6, 15), rate: 11, amount: 55, currency: 'RUB' },
+    ];
+    const { widget, container } = createWidget({ data });
+    const onItemClick = vi.fn();
+    widget.on('itemClick', onItemClick);
+
+    const rows = container.querySelectorAll<HTMLElement>('[data-key]');
+    rows[1].click();
+
+    expect(Array.from(rows, row => row.dataset.key)).toEqual(['coupon:2025-07-15', 'coupon:2025-07-15:1']);
+    expect(onItemClick.mock.calls[0][0].item.amount).toBe(55);
+    widget.destroy();
+  });
+});
+
+describe('загрузка', () => {
+  it('не рендерит ответ запроса, замененного новым load()', async () => {
+    const responses = new Map<string, ReturnType<typeof deferred<Response>>>();
+    vi.stubGlobal('fetch', vi.fn((input: RequestInfo | URL) => {
+      const response = deferred<Response>();
+      responses.set(String(input), response);
+      return response.promise;
+    }));
+    const respond = (url: string, amount: number) => responses.get(url)!.resolve(new Response(JSON.stringify([
+      { type: 'coupon', date: '2025-07-15', rate: 10, amount, currency: 'RUB' },
+    ])));
+
+    const onRender = vi.fn();
+    const onLoad = vi.fn();
+    const { widget } = createWidget({ onRender, onLoad });
+    const first = widget.load('/old.json');
+    const second = widget.load('/new.json');
+
+    respond('/new.json', 55);
+    await second;
+    respond('/old.json', 50);
+    await first;
+    await flush();
+
+    expect(widget.getData().map(item => item.amount)).toEqual([55]);
+    expect(onLoad).toHaveBeenCalledTimes(1);
+    expect(onRender.mock.calls.flatMap(([{ data }]) => data.map((item: { amount: number }) => item.amount))).not.toContain(50);
+    widget.destroy();
+  });
+});
@@ -1,46 +1,262 @@
-import ElementBuilder, { EnhancedElement } from './element-builder';
+import ElementBuilder, { EnhancedElement, StyleObject } from './element-builder';
+import { optionsFromElement } from './attributes';
+import { cacheKey, cachedLoad, clearCache, primeCache } from './cache';
+import { createChart } from './chart';
+import { IncomeTotals, calculateIncome } from './calculator';
+import { Clock, formatIsoDate, resolveNow } from './dates';
+import { CouponsWidgetError } from './errors';
+import { toCSV, toICS } from './export';
+import {
+  CouponsWidgetEventHandler,
+  CouponsWidgetEventMap,
+  CouponsWidgetEventName,
+  WidgetEvents,
+  dispatchCreateError
+} from './events';
+import { CouponFormatter, normalizeCouponData } from './format';
+import { WidgetMessages, describeError, formatMessage, resolveLocalePack, resolveMessages, typeLabel } from './i18n';
+import {
+  MonthlyTotal,
+  PortfolioPosition,
+  PositionSchedule,
+  mergeSchedules,
+  monthlyTotals,
+  normalizePositions
+} from './portfolio';
+import { CouponsMapper, CouponsProvider, ProviderOption, createProvider, isUrl } from './providers';
+import { CouponsWidgetRenderers, RenderContext } from './renderers';
+import { isCoupon } from './schedule';
+import { CouponStatus, estimateUnannounced, findCurrent, getItemStatus, withStatuses } from './status';
+import { WidgetTheme, createStyleElement, injectDocumentStyles } from './styles';
+import { PORTFOLIO_TABLE_COLUMNS, TABLE_COLUMNS, TableColumn, TableSort, sortSchedule } from './table';
+import { YieldMetrics, calculateYield } from './yield';
 
 /**
  * Интерфейс для опций виджета купонов
  */
 export interface CouponsWidgetOptions {
   containerId?: string;
+  container?: HTMLElement | null;
+  shadow?: boolean;
+  theme?: WidgetTheme;
+  view?: WidgetView;
+  viewSwitcher?: boolean;
+  injectStyles?: boolean;
   isin?: string | null;
+  url?: string | null;
+  portfolio?: PortfolioPosition[];
+  provider?: ProviderOption;
+  mapData?: CouponsMapper | null;
   emptyMessage?: string;
   loadingMessage?: string;
-  data?: CouponData[];
+  data?: CouponDataInput[];
+  locale?: string;
+  messages?: Partial<WidgetMessages>;
+  ratePrecision?: number;
+  amountPrecision?: number;
+  pastCount?: number;
+  futureCount?: number;
+  showAll?: boolean;
+  expandable?: boolean;
+  estimateUnannounced?: boolean;
+  focusableItems?: boolean;
+  now?: Clock | null;
+  calculator?: boolean;
+  quantity?: number;
+  incomeTax?: boolean;
+  summary?: boolean;
+  exportButtons?: boolean;
+  price?: number | null;
+  cache?: boolean;
+  cacheTtl?: number;
+  persistCache?: boolean;
+  staleWhileRevalidate?: boolean;
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+  renderers?: CouponsWidgetRenderers;
+  onLoad?: CouponsWidgetEventHandler<'load'> | null;
+  onError?: CouponsWidgetEventHandler<'error'> | null;
+  onRender?: CouponsWidgetEventHandler<'render'> | null;
+  onItemClick?: CouponsWidgetEventHandler<'itemClick'> | null;
 }
 
+/**
+ * Тип записи графика выплат
+ */
+export type ScheduleEntryType = 'coupon' | 'amortization' | 'maturity' | 'offer';
+
+/**
+ * Вид отображения графика
+ */
+export type WidgetView = 'list' | 'table' | 'calendar' | 'chart';
+
+const WIDGET_VIEWS: WidgetView[] = ['list', 'table', 'calendar', 'chart'];
+
+/**
+ * Текст только для экранных дикторов
+ */
+const VISUALLY_HIDDEN: StyleObject = {
+  position: 'absolute',
+  width: '1px',
+  height: '1px',
+  margin: '-1px',
+  padding: '0',
+  overflow: 'hidden',
+  clip: 'rect(0, 0, 0, 0)',
+  whiteSpace: 'nowrap',
+  border: '0',
+};
+
 /**
  * Интерфейс для данных купона
  */
 export interface CouponData {
+  type?: ScheduleEntryType;
+  date: Date;
+  rate: number | null;
+  amount: number | null;
+  currency: string;
+  // Явное выделение и приглушение записи; без флагов виджет определяет их по дате
+  current?: boolean;
+  disabled?: boolean;
+  // Статус относительно текущей даты; виджет пересчитывает его по дате при перерисовке
+  status?: CouponStatus;
+  // Ставка и сумма неопределенного купона оценены по последней известной ставке
+  estimated?: boolean;
+  description?: string;
+  // Начало купонного периода и номинал, к которому относится купон (для НКД и доходностей)
+  startDate?: Date;
+  faceValue?: number | null;
+  // Облигация записи и количество в позиции (в портфеле суммы уже умножены на количество)
+  isin?: string;
+  name?: string;
+  quantity?: number;
+}
+
+/**
+ * Прежний строковый формат данных купона (поддерживается для совместимости)
+ */
+export interface LegacyCouponData {
+  type?: ScheduleEntryType;
   paymentDate: string;
   rate: string;
   amount: string;
   current?: boolean;
   disabled?: boolean;
+  status?: CouponStatus;
   description?: string;
+  startDate?: string;
+  faceValue?: string;
+  isin?: string;
+  name?: string;
 }
 
+/**
+ * Данные купона в числовом или строковом формате
+ */
+export type CouponDataInput = CouponData | LegacyCouponData;
+
+/**
+ * Селектор контейнеров для автоинициализации
+ */
+export const WIDGET_SELECTOR = '[data-coupons-widget]';
+
+// Реестр экземпляров по элементу-контейнеру
+const instances = new WeakMap<HTMLElement, CouponsWidget>();
+
 /**
  * Встраиваемый TypeScript виджет купонов для облигаций
  */
 export default class CouponsWidget {
   private options: Required<CouponsWidgetOptions>;
   private container: EnhancedElement<'div'> | null = null;
+  private host: HTMLElement | null = null;
+  private liveRegion: EnhancedElement<'div'> | null = null;
+  // Записи последней отрисовки по ключу data-key
+  private itemsByKey = new Map<string, CouponData>();
   private data: CouponData[];
+  // Текущая запись последней отрисовки: явно отмеченная или ближайший купон
+  private currentItem: CouponData | null = null;
+  private formatter: CouponFormatter;
+  private messages: WidgetMessages;
+  private expanded = false;
+  private calculatorTotals: EnhancedElement<'div'> | null = null;
+  private marketPrice: number | null = null;
+  private tableSort: TableSort = { column: 'date', direction: 'asc' };
+  private portfolioErrors: { isin: string; message: string }[] = [];
+  private abortController: AbortController | null = null;
+  private events = new WidgetEvents();
 
   constructor(options: CouponsWidgetOptions = {}) {
+    const locale = options.locale || 'ru-RU';
+    this.messages = resolveMessages(locale, {
+      ...(options.emptyMessage ? { empty: options.emptyMessage } : {}),
+      ...(options.loadingMessage ? { loading: options.loadingMessage } : {}),
+      ...options.messages,
+    });
+
     this.options = {
       containerId: options.containerId || 'coupons-widget',
+      container: options.container || null,
+      shadow: options.shadow ?? false,
+      theme: options.theme || 'light',
+      view: options.view || 'list',
+      viewSwitcher: options.viewSwitcher ?? false,
+      injectStyles: options.injectStyles ?? false,
       isin: options.isin || null,
-      emptyMessage: options.emptyMessage || "Данных нет",
-      loadingMessage: options.loadingMessage || "Загрузка данных",
-      data: options.data || []
+      url: options.url || null,
+      portfolio: options.portfolio || [],
+      provider: options.provider || 'moex',
+      mapData: options.mapData || null,
+      emptyMessage: this.messages.empty,
+      loadingMessage: this.messages.loading,
+      data: options.data || [],
+      locale,
+      messages: this.messages,
+      ratePrecision: options.ratePrecision ?? 2,
+      amountPrecision: options.amountPrecision ?? 2,
+      pastCount: options.pastCount ?? 2,
+      futureCount: options.futureCount ?? 3,
+      showAll: options.showAll ?? false,
+      expandable: options.expandable ?? true,
+      estimateUnannounced: options.estimateUnannounced ?? false,
+      // Подписчик itemClick может появиться позже (on() или DOM-событие), поэтому записи доступны с клавиатуры всегда
+      focusableItems: options.focusableItems ?? true,
+      now: options.now || null,
+      calculator: options.calculator ?? false,
+      quantity: normalizeQuantity(options.quantity ?? 1),
+      incomeTax: options.incomeTax ?? false,
+      summary: options.summary ?? false,
+      exportButtons: options.exportButtons ?? false,
+      price: options.price ?? null,
+      cache: options.cache ?? true,
+      cacheTtl: options.cacheTtl ?? 5 * 60 * 1000,
+      persistCache: options.persistCache ?? false,
+      staleWhileRevalidate: options.staleWhileRevalidate ?? true,
+      timeout: options.timeout ?? 10000,
+      retries: options.retries ?? 2,
+      retryDelay: options.retryDelay ?? 500,
+      renderers: options.renderers || {},
+      onLoad: options.onLoad || null,
+      onError: options.onError || null,
+      onRender: options.onRender || null,
+      onItemClick: options.onItemClick || null
     };
 
-    this.data = this.options.data || this.getDefaultData();
+    // Колбэки из опций - обычные подписки
+    if (this.options.onLoad) this.on('load', this.options.onLoad);
+    if (this.options.onError) this.on('error', this.options.onError);
+    if (this.options.onRender) this.on('render', this.options.onRender);
+    if (this.options.onItemClick) this.on('itemClick', this.options.onItemClick);
+
+    this.formatter = new CouponFormatter(this.options.locale, {
+      ratePrecision: this.options.ratePrecision,
+      amountPrecision: this.options.amountPrecision,
+    });
+    this.data = this.options.data.length
+      ? this.prepareData(this.options.data.map(normalizeCouponData))
+      : this.getDefaultData();
     this.init();
   }
 
@@ -51,7 +267,7 @@ export default class CouponsWidget {
     this.iniBaseContainer();
     this.render();
 
-    if (this.options.isin) {
+    if (this.getSource() || this.isPortfolio()) {
       this.loadData();
     }
   }
@@ -60,7 +276,7 @@ export default class CouponsWidget {
    * Создание контейнера
    */
   private iniBaseContainer(): void {
-    let container = document.getElementById(this.options.containerId);
+    let container = this.options.container || document.getElementById(this.options.containerId);
     if (!container) {
       container = ElementBuilder
         .create('div')
@@ -68,12 +284,37 @@ export default class CouponsWidget {
         .appendTo('body');
     }
 
-    this.container = ElementBuilder.enhance(container as HTMLDivElement);
+    // Один виджет на элемент: прежний экземпляр уничтожается
+    instances.get(container)?.destroy();
+    instances.set(container, this);
+    this.host = container;
+
+    if (this.options.shadow) {
+      // Виджет рендерится во внутренний контейнер теневого дерева вместе со стилями
+      const root = container.shadowRoot || container.attachShadow({ mode: 'open' });
+      this.container = ElementBuilder.div();
+      root.replaceChildren(createStyleElement(), this.container);
+    } else {
+      if (this.options.injectStyles) {
+        injectDocumentStyles();
+      }
+      this.container = ElementBuilder.enhance(container as HTMLDivElement);
+    }
 
     // Добавляем базовый класс, если его еще нет
     if (!this.container.hasClass('coupons-widget')) {
       this.container.addClass('coupons-widget');
     }
+    this.container.setAttr('data-theme', this.options.theme);
+
+    // Область вежливых объявлений переживает перерисовки, иначе экранный диктор ее не озвучит
+    this.liveRegion = this.elems().visuallyHidden('div')
+      .addClass('live-region')
+      .setAttr({ role: 'status', 'aria-live': 'polite', 'aria-atomic': 'true' });
+    this.container.replaceChildren(this.liveRegion);
+
+    this.container.addEventListener('click', this.handleItemEvent);
+    this.container.addEventListener('keydown', this.handleItemEvent);
   }
 
   /**
@@ -82,20 +323,84 @@ export default class CouponsWidget {
   private render(): void {
     if (!this.container) return;
 
-    // Очищаем контейнер
-    this.container.empty();
+    this.calculatorTotals = null;
+    this.itemsByKey.clear();
+    // Статусы зависят от текущего дня, а не от момента загрузки (данные могут быть из кэша)
+    this.data = withStatuses(this.data, this.now());
+    this.currentItem = findCurrent(this.data, this.now());
+
+    const chartView = this.options.view === 'chart';
+    // Диаграмма показывает весь график, остальные виды - окно вокруг текущего купона
+    const visibleData = chartView ? this.data : this.getVisibleData();
+    const content: Node[] = [];
+
+    if (this.options.viewSwitcher) {
+      content.push(this.elems().viewSwitcher());
+    }
+
+    // Сводка по цене и доходности имеет смысл только для одной облигации
+    if (this.options.summary && !this.isPortfolio() && this.data.length > 0) {
+      content.push(this.elems().summary());
+    }
 
-    const baseContainer = this.elems().baseContainer();
+    if (this.portfolioErrors.length > 0) {
+      content.push(this.elems().portfolioErrors());
+    }
 
     if (this.data.length === 0) {
-      baseContainer.addChild(this.elems().emptyElem());
+      content.push(this.elems().baseContainer().addChild(this.elems().emptyElem()));
     } else {
-      this.data.forEach(item => {
-        baseContainer.addChild(this.elems().listItem(item));
-      });
+      content.push(this.elems().viewContent(visibleData));
+    }
+
+    // Кнопка раскрытия, если часть графика скрыта
+    if (!chartView && this.options.expandable && !this.options.showAll &&
+      (this.expanded || visibleData.length < this.data.length)) {
+      content.push(this.elems().toggleButton(this.data.length - visibleData.length));
+    }
+
+    // Калькулятор считает по всему графику, а не по видимому окну. В портфеле суммы уже
+    // умножены на количество каждой позиции, поэтому общее количество не имеет смысла.
+    if (this.options.calculator && !this.isPortfolio() && this.data.length > 0) {
+      content.push(this.elems().calculator());
+    }
+
+    if (this.options.exportButtons && this.data.length > 0) {
+      content.push(this.elems().exportButtons());
+    }
+
+    // Записи с тем же ключом обновляются на месте: фокус, hover и CSS-переходы сохраняются
+    this.container.removeAttribute('aria-busy');
+    ElementBuilder.patch(this.container, this.liveRegion ? [this.liveRegion, ...content] : content);
+    this.calculatorTotals = this.container.querySelector<EnhancedElement<'div'>>('.calculator-totals');
+
+    this.emit('render', { data: visibleData });
+  }
+
+  /**
+   * Окно графика: pastCount прошедших и futureCount предстоящих записей
+   */
+  private getVisibleData(): CouponData[] {
+    if (this.options.showAll || this.expanded) {
+      return this.data;
     }
 
-    this.container.addChild(baseContainer);
+    const { pastCount, futureCount } = this.options;
+
+    // Опорная запись - текущий купон, иначе первая непрошедшая
+    let anchorIndex = this.currentItem ? this.data.indexOf(this.currentItem) : -1;
+    if (anchorIndex === -1) {
+      anchorIndex = this.data.findIndex(item => !this.isDisabled(item));
+    }
+    if (anchorIndex === -1) {
+      anchorIndex = this.data.length;
+    }
+
+    const startIndex = Math.max(0, anchorIndex - pastCount);
+    // Недостающие прошедшие записи добираем предстоящими
+    const endIndex = Math.min(this.data.length, startIndex + pastCount + futureCount);
+
+    return this.data.slice(startIndex, endIndex);
   }
 
   /**
@@ -107,166 +412,805 @@ export default class CouponsWidget {
         return ElementBuilder.div('coupons-list');
       },
 
-      listItem: (item: CouponData) => {
-        const itemElement = ElementBuilder.create('div')
-          .addClass('list-item');
+      viewContent: (data: CouponData[]): Node => {
+        switch (this.options.view) {
+          case 'chart':
+            // Диаграмма отмечает текущий и прошедшие столбцы по флагам записей
+            return ElementBuilder.div('coupons-chart')
+              .addChild(createChart(
+                data.map(item => ({ ...item, current: item === this.currentItem, disabled: this.isDisabled(item) })),
+                { formatter: this.formatter, messages: this.messages }
+              ));
+          case 'table':
+            return this.elems().table(data);
+          case 'calendar':
+            return this.elems().calendar(data);
+          default:
+            return this.isPortfolio()
+              ? this.elems().portfolioList(data)
+              : this.elems().baseContainer()
+                .setAttr('role', 'list')
+                .addChild(...data.map(item => this.elems().listItem(item)));
+        }
+      },
+
+      portfolioList: (data: CouponData[]) => {
+        const list = this.elems().baseContainer().setAttr('role', 'list');
+        const totals = monthlyTotals(this.data);
+
+        // Итог месяца после его последней записи
+        data.forEach((item, index) => {
+          list.addChild(this.elems().listItem(item));
+          const next = data[index + 1];
+          if (!next || monthKey(next.date) !== monthKey(item.date)) {
+            list.addChild(this.elems().monthTotal(item.date, totals).setAttr('role', 'listitem'));
+          }
+        });
+        return list;
+      },
+
+      monthTotal: (date: Date, totals: MonthlyTotal[]) => {
+        const amounts = totals
+          .filter(total => monthKey(total.month) === monthKey(date))
+          .map(total => this.formatter.amount(total.amount, total.currency));
+        const title = formatMessage(this.messages.monthTotal, {
+          month: `${this.formatter.month(date)} ${this.formatter.year(date)}`,
+        });
+
+        return ElementBuilder.div('month-total').addChild(
+          ElementBuilder.span(title, 'elem-title'),
+          ElementBuilder.span(amounts.join(' + ') || '-', 'elem-value'),
+        );
+      },
+
+      bondLabel: (item: CouponData) => {
+        return this.isPortfolio() && item.name
+          ? ElementBuilder.span(item.name, 'bond-name').setAttr('title', item.isin || item.name)
+          : null;
+      },
+
+      portfolioErrors: () => {
+        return ElementBuilder.div('portfolio-errors').addChild(
+          ...this.portfolioErrors.map(({ isin, message }) => ElementBuilder.div('portfolio-error')
+            .setText(`${isin}: ${message}`)),
+        );
+      },
+
+      viewSwitcher: () => {
+        const titles: Record<WidgetView, string> = {
+          list: this.messages.viewList,
+          table: this.messages.viewTable,
+          calendar: this.messages.viewCalendar,
+          chart: this.messages.viewChart,
+        };
+
+        return ElementBuilder.div('view-switcher')
+          .setAttr({ role: 'group', 'aria-label': this.messages.viewLabel })
+          .addChild(...WIDGET_VIEWS.map(view => {
+            const button = ElementBuilder.create('button')
+              .addClass('view-button')
+              .setAttr({ type: 'button', 'aria-pressed': String(view === this.options.view) })
+              .setData('view', view)
+              .setText(titles[view])
+              .on('click', () => this.setView(view));
+            return view === this.options.view ? button.addClass('active') : button;
+          }));
+      },
+
+      listItem: (item: CouponData): Node => {
+        const defaultRender = () => this.elems().defaultListItem(item);
+        const renderer = this.options.renderers.listItem;
+        // Пользовательская разметка может содержать обработчики addEventListener, которые
+        // patch() не переносит, поэтому она заменяется целиком
+        const element = renderer
+          ? ElementBuilder.replaceOnPatch(
+            renderer(item, { ...this.renderContext(defaultRender), status: this.itemStatus(item) }))
+          : defaultRender();
+
+        // Клик и роль записи списка доступны и для пользовательской разметки
+        if (element instanceof HTMLElement) {
+          if (!element.hasAttribute('role')) {
+            element.setAttribute('role', 'listitem');
+          }
+          this.bindItem(element, item);
+        }
+        return element;
+      },
+
+      table: (data: CouponData[]) => {
+        const columns = this.isPortfolio() ? PORTFOLIO_TABLE_COLUMNS : TABLE_COLUMNS;
+        const header = ElementBuilder.create('tr')
+          .addChild(...columns.map(column => this.elems().tableHeader(column)));
+        const body = ElementBuilder.create('tbody')
+          .addChild(...sortSchedule(data, this.tableSort).map(item => this.elems().tableRow(item, columns)));
+
+        return ElementBuilder.div('coupons-table-wrapper').addChild(
+          ElementBuilder.create('table')
+            .addClass('coupons-table')
+            .addChild(ElementBuilder.create('thead').addChild(header), body),
+        );
+      },
+
+      tableHeader: (column: TableColumn) => {
+        const titles: Record<TableColumn, string> = {
+          date: this.messages.columnDate,
+          bond: this.messages.columnBond,
+          type: this.messages.columnType,
+          rate: this.messages.columnRate,
+          amount: this.messages.columnAmount,
+        };
+        const active = this.tableSort.column === column;
+
+        const cell = ElementBuilder.create('th')
+          .setAttr('scope', 'col')
+          .addClass(column)
+          .addChild(ElementBuilder.create('button')
+            .addClass('sort-button')
+            .setAttr('type', 'button')
+            .setText(titles[column])
+            .on('click', () => this.sortTable(column)));
+
+        if (active) {
+          cell.addClass(['sorted', this.tableSort.direction])
+            .setAttr('aria-sort', this.tableSort.direction === 'asc' ? 'ascending' : 'descending');
+        }
+        return cell;
+      },
+
+      tableRow: (item: CouponData, columns: TableColumn[]) => {
+        const type = item.type || 'coupon';
+        const row = ElementBuilder.create('tr').addClass(['table-row', type, ...this.statusClasses(item)]);
 
-        // Добавляем статусы как классы
-        if (item.current) itemElement.addClass('current');
-        if (item.disabled) itemElement.addClass('disabled');
+        const values: Record<TableColumn, string> = {
+          date: this.formatter.date(item.date),
+          bond: item.name || item.isin || '',
+          type: typeLabel(item, this.messages),
+          rate: this.rateText(item),
+          amount: this.amountText(item),
+        };
+        row.addChild(...columns.map(column => {
+          const cell = ElementBuilder.create('td').addClass(column).setText(values[column]);
+          return column === 'date' ? cell.addChild(this.elems().statusBadge(item)) : cell;
+        }));
+
+        this.bindItem(row, item);
+        return row;
+      },
+
+      calendar: (data: CouponData[]) => {
+        const calendar = ElementBuilder.div('coupons-calendar');
+        const totals = this.isPortfolio() ? monthlyTotals(this.data) : [];
+        let year: EnhancedElement<'div'> | null = null;
+        let items: EnhancedElement<'div'> | null = null;
+        let yearKey: number | null = null;
+        let monthKey: number | null = null;
+
+        // Данные уже упорядочены по дате: новая группа начинается при смене месяца или года
+        data.forEach(item => {
+          if (item.date.getFullYear() !== yearKey) {
+            yearKey = item.date.getFullYear();
+            monthKey = null;
+            year = ElementBuilder.div('calendar-year')
+              .addChild(ElementBuilder.div('calendar-year-title').setText(this.formatter.year(item.date)));
+            calendar.addChild(year);
+          }
+          if (item.date.getMonth() !== monthKey) {
+            monthKey = item.date.getMonth();
+            const month = ElementBuilder.div('calendar-month')
+              .addChild(ElementBuilder.div('calendar-month-title').setText(this.formatter.month(item.date)));
+            if (this.isPortfolio()) {
+              month.addChild(this.elems().monthTotal(item.date, totals));
+            }
+            items = ElementBuilder.div('calendar-items').setAttr('role', 'list');
+            year!.addChild(month.addChild(items));
+          }
+          items!.addChild(this.elems().calendarItem(item));
+        });
+
+        return calendar;
+      },
+
+      calendarItem: (item: CouponData) => {
+        const type = item.type || 'coupon';
+        const element = ElementBuilder.div('calendar-item')
+          .addClass([type, ...this.statusClasses(item)])
+          .setAttr('role', 'listitem');
+
+        element.addChild(
+          ElementBuilder.span(this.formatter.day(item.date), 'calendar-day'),
+          ElementBuilder.span(typeLabel(item, this.messages), 'type-label'),
+          this.elems().bondLabel(item),
+          ElementBuilder.span(type === 'offer' ? this.formatter.rate(item.rate) : this.amountText(item), 'elem-value'),
+          this.elems().statusBadge(item),
+        );
+
+        this.bindItem(element, item);
+        return element;
+      },
+
+      defaultListItem: (item: CouponData) => {
+        switch (item.type) {
+          case 'amortization':
+            return this.elems().amortizationItem(item);
+          case 'maturity':
+            return this.elems().maturityItem(item);
+          case 'offer':
+            return this.elems().offerItem(item);
+          default:
+            return this.elems().couponItem(item);
+        }
+      },
 
+      itemContainer: (item: CouponData, type: ScheduleEntryType) => {
+        // Статусы записи - классы элемента
+        return ElementBuilder.create('div')
+          .addClass(['list-item', type, ...this.statusClasses(item)]);
+      },
+
+      field: (className: string, title: string, value: string) => {
+        return ElementBuilder.div("elem").addClass(className).addChild(
+          ElementBuilder.span(title, "elem-title"),
+          ElementBuilder.span(value, "elem-value"),
+        );
+      },
+
+      visuallyHidden: <K extends 'div' | 'span'>(tag: K) => {
+        // Стили встроены: виджет по умолчанию не подключает свою таблицу стилей
+        return ElementBuilder.create(tag).addClass('visually-hidden').setStyle(VISUALLY_HIDDEN);
+      },
+
+      statusBadge: (item: CouponData) => {
+        if (item.estimated) {
+          return ElementBuilder.span(this.messages.estimate, 'status-badge').addClass('estimate');
+        }
+        switch (this.itemStatus(item)) {
+          case 'today':
+            return ElementBuilder.span(this.messages.payingToday, 'status-badge').addClass('today');
+          case 'past':
+            // Прошедшие записи отличаются только прозрачностью - статус нужен и экранным дикторам
+            return this.elems().visuallyHidden('span').setText(this.messages.pastPayment);
+          default:
+            return null;
+        }
+      },
+
+      couponItem: (item: CouponData) => {
         // Создаем элементы для левого блока (дата и описание)
         const leftBlock = ElementBuilder.div()
           .addChild(
-            ElementBuilder.div("elem").addClass("payment-date").addChild(
-              ElementBuilder.span("Дата выплаты:", "elem-title"),
-              ElementBuilder.span(item.paymentDate, "elem-value"),
-            )
+            this.elems().bondLabel(item),
+            this.elems().field("payment-date", this.messages.paymentDate, this.formatter.date(item.date)),
+            this.elems().statusBadge(item),
           );
 
         // Создаем элементы для правого блока (ставка и сумма)
         const rightBlock = ElementBuilder.div()
           .addChild(
-            ElementBuilder.div("elem").addClass("rate").addChild(
-              ElementBuilder.span("Ставка:", "elem-title"),
-              ElementBuilder.span(item.rate, "elem-value"),
-            ),
-            ElementBuilder.div("elem").addClass("amount").addChild(
-              ElementBuilder.span("Сумма 1 облигации:", "elem-title"),
-              ElementBuilder.span(item.amount, "elem-value"),
-            ),
+            this.elems().field("rate", this.messages.rate, this.rateText(item)),
+            this.elems().field("amount", this.messages.amount, this.amountText(item)),
           );
 
-        return itemElement.addChild(leftBlock, rightBlock);
+        return this.elems().itemContainer(item, 'coupon').addChild(leftBlock, rightBlock);
       },
 
-      emptyElem: () => {
-        return ElementBuilder.create('div')
+      amortizationItem: (item: CouponData) => {
+        const leftBlock = ElementBuilder.div()
+          .addChild(
+            this.elems().bondLabel(item),
+            ElementBuilder.span(this.messages.amortization, "type-label"),
+            this.elems().field("payment-date", this.messages.paymentDate, this.formatter.date(item.date)),
+            this.elems().statusBadge(item),
+          );
+
+        const rightBlock = ElementBuilder.div()
+          .addChild(
+            this.elems().field("rate", this.messages.faceShare, this.formatter.rate(item.rate)),
+            this.elems().field("amount", this.messages.amount, this.formatter.amount(item.amount, item.currency)),
+          );
+
+        return this.elems().itemContainer(item, 'amortization').addChild(leftBlock, rightBlock);
+      },
+
+      maturityItem: (item: CouponData) => {
+        const leftBlock = ElementBuilder.div()
+          .addChild(
+            this.elems().bondLabel(item),
+            ElementBuilder.span(this.messages.maturity, "type-label"),
+            this.elems().field("payment-date", this.messages.maturityDate, this.formatter.date(item.date)),
+            this.elems().statusBadge(item),
+          );
+
+        const rightBlock = ElementBuilder.div()
+          .addChild(
+            this.elems().field("amount", this.messages.amount, this.formatter.amount(item.amount, item.currency)),
+          );
+
+        return this.elems().itemContainer(item, 'maturity').addChild(leftBlock, rightBlock);
+      },
+
+      offerItem: (item: CouponData) => {
+        const leftBlock = ElementBuilder.div()
+          .addChild(
+            this.elems().bondLabel(item),
+            ElementBuilder.span(item.description || this.messages.offer, "type-label"),
+            this.elems().field("payment-date", this.messages.offerDate, this.formatter.date(item.date)),
+            this.elems().statusBadge(item),
+          );
+
+        const rightBlock = ElementBuilder.div()
+          .addChild(
+            this.elems().field("rate", this.messages.offerPrice, this.formatter.rate(item.rate)),
+          );
+
+        return this.elems().itemContainer(item, 'offer').addChild(leftBlock, rightBlock);
+      },
+
+      toggleButton: (hiddenCount: number) => {
+        return ElementBuilder.create('button')
+          .addClass('toggle-button')
+          .setAttr({ type: 'button', 'aria-expanded': String(this.expanded) })
+          .setText(this.expanded
+            ? this.messages.collapse
+            : formatMessage(this.messages.showAll, { count: hiddenCount }))
+          .on('click', () => this.toggleExpanded());
+      },
+
+      summary: () => {
+        const price = this.getPrice();
+        const metrics = this.getYield();
+        const coupon = this.data.find(isCoupon);
+        const currency = coupon ? coupon.currency : 'RUB';
+
+        const summary = ElementBuilder.div('summary');
+        if (price !== null) {
+          summary.addChild(this.elems().field('price', this.messages.price, this.formatter.rate(price)));
+        }
+        summary.addChild(
+          this.elems().field('accrued-interest', this.messages.accruedInterest,
+            this.formatter.amount(metrics.accruedInterest, currency)),
+          this.elems().field('current-yield', this.messages.currentYield, this.formatter.rate(metrics.currentYield)),
+        );
+
+        // При наличии оферты доходность считается к ближайшей оферте
+        if (metrics.offerDate) {
+          summary.addChild(this.elems().field('yield-to-offer',
+            formatMessage(this.messages.yieldToOffer, { date: this.formatter.date(metrics.offerDate) }),
+            this.formatter.rate(metrics.yieldToOffer)));
+        } else {
+          summary.addChild(this.elems().field('yield-to-maturity', this.messages.yieldToMaturity,
+            this.formatter.rate(metrics.yieldToMaturity)));
+        }
+        return summary;
+      },
+
+      calculator: () => {
+        const quantityInput = ElementBuilder.create('input')
+          .setAttr({ type: 'number', min: '1', step: '1', value: String(this.options.quantity) })
+          // Поле может быть заменено полем прежней отрисовки - значение берется из события
+          .on('input', event => {
+            const quantity = Number((event.target as HTMLInputElement).value);
+            if (quantity >= 1) {
+              this.options.quantity = normalizeQuantity(quantity);
+              this.updateCalculator();
+            }
+          });
+
+        const taxInput = ElementBuilder.create('input')
+          .setAttr('type', 'checkbox')
+          .on('change', event => {
+            this.options.incomeTax = (event.target as HTMLInputElement).checked;
+            this.updateCalculator();
+          });
+        taxInput.checked = this.options.incomeTax;
+
+        this.calculatorTotals = ElementBuilder.div('calculator-totals');
+        this.updateCalculator();
+
+        return ElementBuilder.div('calculator').addChild(
+          ElementBuilder.create('label').addClass(['elem', 'calculator-quantity']).addChild(
+            ElementBuilder.span(this.messages.quantity, 'elem-title'),
+            quantityInput,
+          ),
+          ElementBuilder.create('label').addClass('calculator-tax').addChild(
+            taxInput,
+            ElementBuilder.span(this.messages.incomeTax),
+          ),
+          this.calculatorTotals,
+        );
+      },
+
+      exportButtons: () => {
+        const fileName = this.options.isin || 'coupons';
+
+        return ElementBuilder.div('export-buttons').addChild(
+          ElementBuilder.create('button')
+            .addClass(['export-button', 'ics'])
+            .setAttr('type', 'button')
+            .setText(this.messages.exportIcs)
+            .on('click', () => downloadFile(`${fileName}.ics`, this.exportICS(), 'text/calendar')),
+          ElementBuilder.create('button')
+            .addClass(['export-button', 'csv'])
+            .setAttr('type', 'button')
+            .setText(this.messages.exportCsv)
+            // BOM - чтобы Excel распознал UTF-8
+            .on('click', () => downloadFile(`${fileName}.csv`, '\uFEFF' + this.exportCSV(), 'text/csv')),
+        );
+      },
+
+      emptyElem: (): Node => {
+        const defaultRender = () => ElementBuilder.create('div')
           .addClass('empty')
-          .setText(this.options.emptyMessage);
+          .setText(this.messages.empty);
+        const renderer = this.options.renderers.empty;
+        return renderer ? ElementBuilder.replaceOnPatch(renderer(this.renderContext(defaultRender))) : defaultRender();
       },
 
-      loadingElem: () => {
-        return ElementBuilder.create('div')
+      loadingElem: (): Node => {
+        const defaultRender = () => ElementBuilder.create('div')
           .addClass('loading')
-          .setText(this.options.loadingMessage);
+          .setText(this.messages.loading);
+        const renderer = this.options.renderers.loading;
+        return renderer ? ElementBuilder.replaceOnPatch(renderer(this.renderContext(defaultRender))) : defaultRender();
       },
 
-      errorElem: (message: string) => {
-        return ElementBuilder.create('div')
+      errorElem: (message: string): Node => {
+        const defaultRender = () => ElementBuilder.create('div')
           .addClass('error')
-          .setText(`Ошибка: ${message}`);
+          .setText(`${this.messages.errorPrefix}: ${message}`);
+        const renderer = this.options.renderers.error;
+        return renderer ? ElementBuilder.replaceOnPatch(renderer(message, this.renderContext(defaultRender))) : defaultRender();
       }
     };
   }
 
   /**
-   * Загрузка данных с API
+   * Пересчет итогов калькулятора без перерисовки (поле ввода не теряет фокус)
+   */
+  private updateCalculator(): void {
+    if (!this.calculatorTotals) return;
+
+    const totals = this.getIncome();
+    this.calculatorTotals.empty().addChild(
+      this.elems().field('income-year', this.messages.incomeNextYear,
+        this.formatter.amount(totals.nextYear, totals.currency)),
+      this.elems().field('income-total', this.messages.incomeUntilMaturity,
+        this.formatter.amount(totals.untilMaturity, totals.currency)),
+    );
+  }
+
+  /**
+   * Перерисовка сводки после загрузки цены без перерисовки графика
+   */
+  private updateSummary(): void {
+    const summary = this.container?.querySelector('.summary');
+    if (summary) {
+      summary.replaceWith(this.elems().summary());
+    }
+  }
+
+  /**
+   * Классы статуса записи. current и disabled сохраняются для совместимости со старыми стилями.
+   */
+  private statusClasses(item: CouponData): string[] {
+    const status = this.itemStatus(item);
+    const classes: string[] = [];
+    if (item === this.currentItem) classes.push('current');
+    if (this.isDisabled(item)) classes.push('disabled');
+    if (status === 'today' || status === 'unannounced') classes.push(status);
+    if (item.estimated) classes.push('estimated');
+    return classes;
+  }
+
+  /**
+   * Статус записи: рассчитанный при отрисовке, для записей без даты - по полям записи
+   */
+  private itemStatus(item: CouponData): CouponStatus {
+    return item.status || getItemStatus(item, this.now());
+  }
+
+  /**
+   * Приглушенная запись: явный флаг disabled, иначе прошедшая
+   */
+  private isDisabled(item: CouponData): boolean {
+    return item.disabled ?? this.itemStatus(item) === 'past';
+  }
+
+  /**
+   * Ставка купона: для неопределенного купона - пояснение, для оценки - со знаком ≈
+   */
+  private rateText(item: CouponData): string {
+    if (item.estimated) return `≈ ${this.formatter.rate(item.rate)}`;
+    return item.rate === null && this.itemStatus(item) === 'unannounced'
+      ? this.messages.rateNotSet
+      : this.formatter.rate(item.rate);
+  }
+
+  /**
+   * Сумма выплаты, оценка - со знаком ≈
+   */
+  private amountText(item: CouponData): string {
+    const amount = this.formatter.amount(item.amount, item.currency);
+    return item.estimated ? `≈ ${amount}` : amount;
+  }
+
+  /**
+   * Ключ записи для обновления на месте, ARIA-состояние и доступность с клавиатуры.
+   * Клики обрабатываются одним делегированным обработчиком контейнера.
+   */
+  private bindItem(element: HTMLElement, item: CouponData): void {
+    // Записи одного типа в один день различаются номером
+    const baseKey = itemKey(item);
+    let key = baseKey;
+    for (let repeat = 1; this.itemsByKey.has(key); repeat++) {
+      key = `${baseKey}:${repeat}`;
+    }
+    element.setAttribute('data-key', key);
+    this.itemsByKey.set(key, item);
+
+    if (item === this.currentItem) {
+      element.setAttribute('aria-current', 'true');
+    }
+    if (this.options.focusableItems && !element.hasAttribute('tabindex')) {
+      element.tabIndex = 0;
+    }
+  }
+
+  /**
+   * Отправка itemClick при клике по записи или Enter и пробеле на записи в фокусе
+   */
+  private handleItemEvent = (event: Event): void => {
+    const keyboard = event instanceof KeyboardEvent;
+    if (keyboard && (!this.options.focusableItems || (event.key !== 'Enter' && event.key !== ' '))) return;
+
+    const element = event.target instanceof Element ? event.target.closest('[data-key]') : null;
+    if (!(element instanceof HTMLElement) || !this.container?.contains(element)) return;
+    if (keyboard && event.target !== element) return;
+
+    const item = this.itemsByKey.get(element.getAttribute('data-key')!);
+    if (!item) return;
+
+    if (keyboard) event.preventDefault();
+    this.emit('itemClick', { item, element, originalEvent: event as MouseEvent | KeyboardEvent });
+  };
+
+  /**
+   * Сортировка таблицы: повторный клик по колонке меняет направление
+   */
+  private sortTable(column: TableColumn): void {
+    const direction = this.tableSort.column === column && this.tableSort.direction === 'asc' ? 'desc' : 'asc';
+    this.tableSort = { column, direction };
+    this.render();
+  }
+
+  /**
+   * Контекст пользовательских рендереров
+   */
+  private renderContext(defaultRender: RenderContext['defaultRender']): RenderContext {
+    return {
+      builder: ElementBuilder,
+      formatter: this.formatter,
+      messages: this.messages,
+      defaultRender,
+    };
+  }
+
+  /**
+   * Загрузка данных через провайдер. Промис не отклоняется: ошибки, в том числе
+   * некорректные позиции портфеля, показываются в виджете и передаются событием error.
    */
   private async loadData(): Promise<void> {
+    // Новая загрузка отменяет предыдущую (и ее фоновое обновление из кэша)
+    this.abortRequest();
+    const controller = new AbortController();
+    this.abortController = controller;
+
     try {
+      if (this.isPortfolio()) {
+        await this.loadPortfolioData(controller.signal);
+        return;
+      }
+
       this.showLoading();
-      if (this.options.isin) {
-        await this.loadFromMOEX(this.options.isin);
+      const source = this.getSource();
+      if (source) {
+        // Цена не задерживает график: сводка обновится, когда она придет
+        this.marketPrice = null;
+        this.loadPrice(source, controller.signal);
+        const data = await this.fetchData(source, controller.signal, freshData => {
+          if (this.getSource() === source) {
+            this.applyData(freshData);
+            this.emit('load', { data: freshData, source });
+            this.loadPrice(source, controller.signal);
+          }
+        });
+        // Ответ устаревшего запроса не должен попасть в render()
+        if (!controller.signal.aborted) {
+          this.applyData(data);
+          this.emit('load', { data, source });
+        }
       }
     } catch (error) {
-      this.showError(error instanceof Error ? error.message : 'Неизвестная ошибка');
+      if (!controller.signal.aborted) {
+        const message = this.errorMessage(error);
+        this.showError(message);
+        this.emit('error', {
+          error,
+          type: error instanceof CouponsWidgetError ? error.type : 'unknown',
+          message,
+        });
+      }
     }
   }
 
   /**
-   * Загрузка данных с MOEX API по ISIN
+   * Параллельная загрузка позиций портфеля. Ошибка одной позиции
+   * показывается отдельно и не мешает остальным.
    */
-  private async loadFromMOEX(isin: string): Promise<void> {
-    const response = await fetch(
-      `https://iss.moex.com/iss/securities/${isin}/bondization.json?iss.json=extended&iss.meta=off&iss.only=coupons&lang=ru&limit=unlimited`
-    );
+  private async loadPortfolioData(signal: AbortSignal): Promise<void> {
+    const positions = normalizePositions(this.options.portfolio);
+    const schedules = new Map<number, PositionSchedule>();
+    const applyPortfolio = () => {
+      this.applyData(mergeSchedules(positions
+        .map((_position, index) => schedules.get(index))
+        .filter((schedule): schedule is PositionSchedule => schedule !== undefined)));
+    };
 
-    if (!response.ok) {
-      throw new Error('Ошибка загрузки данных с MOEX');
-    }
+    this.showLoading();
+    const results = await Promise.allSettled(positions.map((position, index) =>
+      this.fetchData(position.isin, signal, freshData => {
+        // Фоновое обновление одной позиции пересобирает общий график
+        schedules.set(index, { position, data: freshData });
+        applyPortfolio();
+      })
+    ));
+    if (signal.aborted) return;
 
-    const data = await response.json();
-    const coupons = data[1]?.coupons ?? [];
+    this.portfolioErrors = [];
+    results.forEach((result, index) => {
+      const position = positions[index];
+      if (result.status === 'fulfilled') {
+        schedules.set(index, { position, data: result.value });
+        return;
+      }
 
-    // Преобразуем данные MOEX в формат виджета
-    this.data = this.convertMOEXData(coupons);
-    this.render();
+      const message = this.errorMessage(result.reason);
+      this.portfolioErrors.push({ isin: position.isin, message });
+      this.emit('error', {
+        error: result.reason,
+        type: result.reason instanceof CouponsWidgetError ? result.reason.type : 'unknown',
+        message,
+        source: position.isin,
+      });
+    });
+
+    applyPortfolio();
+    this.emit('load', { data: this.data, source: positions.map(position => position.isin).join(',') });
   }
 
   /**
-   * Преобразование данных MOEX в формат виджета
+   * Загрузка через общий кэш или напрямую через провайдер.
+   * onRevalidate получает свежие данные после показа устаревших из кэша.
    */
-  private convertMOEXData(couponsData: any[]): CouponData[] {
-    if (couponsData.length === 0 || !couponsData) {
-      return [];
+  private fetchData(
+    source: string,
+    signal: AbortSignal,
+    onRevalidate: (data: CouponData[]) => void
+  ): Promise<CouponData[]> {
+    const provider = this.getProvider();
+    const loader = async (requestSignal: AbortSignal) => {
+      const data = await provider.load(source, {
+        signal: requestSignal,
+        timeout: this.options.timeout,
+        retries: this.options.retries,
+        retryDelay: this.options.retryDelay,
+        now: this.now(),
+      });
+      return data.map(normalizeCouponData);
+    };
+
+    if (!this.options.cache) {
+      return loader(signal);
     }
-    const currentDate = new Date();
-    currentDate.setHours(0, 0, 0, 0);
 
-    const sortedCoupons = [...couponsData].sort((a, b) =>
-      new Date(a.coupondate).getTime() - new Date(b.coupondate).getTime()
-    );
+    const scope = cacheScope(source, this.options);
+    return cachedLoad(cacheKey(scope.name, source), loader, {
+      ttl: this.options.cacheTtl,
+      persist: this.options.persistCache && scope.persistable,
+      staleWhileRevalidate: this.options.staleWhileRevalidate,
+    }, freshData => {
+      // Обновляем, только если запрос не отменен новой загрузкой или destroy()
+      if (!signal.aborted) {
+        onRevalidate(freshData);
+      }
+    }, signal);
+  }
 
-    let firstUpcomingIndex = sortedCoupons.findIndex(coupon =>
-      new Date(coupon.coupondate) >= currentDate
-    );
+  /**
+   * Загрузка рыночной цены для сводки, если цена не задана опцией.
+   * Ошибка не прерывает загрузку графика: без цены сводка показывает только НКД.
+   */
+  private async loadPrice(source: string, signal: AbortSignal): Promise<void> {
+    const provider = this.getProvider();
+    if (!this.options.summary || this.options.price !== null || !provider.loadPrice) return;
 
-    if (firstUpcomingIndex === -1) {
-      firstUpcomingIndex = sortedCoupons.length;
+    let price: number | null = null;
+    try {
+      price = await provider.loadPrice(source, {
+        signal,
+        timeout: this.options.timeout,
+        retries: this.options.retries,
+        retryDelay: this.options.retryDelay,
+      });
+    } catch {
+      price = null;
     }
 
-    const startIndex = Math.max(0, firstUpcomingIndex - 2);
-    const endIndex = Math.min(sortedCoupons.length, startIndex === 0 ? firstUpcomingIndex + 5 : firstUpcomingIndex + 3);
-
-    const selectedCoupons = sortedCoupons.slice(startIndex, endIndex);
+    // Цена отмененного запроса относится к прежнему источнику
+    if (!signal.aborted) {
+      this.marketPrice = price;
+      this.updateSummary();
+    }
+  }
 
-    const currentCouponDate = firstUpcomingIndex < sortedCoupons.length
-      ? sortedCoupons[firstUpcomingIndex].coupondate
-      : null;
+  /**
+   * Отмена текущего запроса
+   */
+  private abortRequest(): void {
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+  }
 
-    return selectedCoupons.map(coupon => {
-      const status = this.getCouponStatus(coupon.coupondate, currentDate, currentCouponDate);
+  /**
+   * Применение загруженных данных
+   */
+  private applyData(data: CouponData[]): void {
+    this.data = this.prepareData(data);
+    this.expanded = false;
+    this.render();
+    this.announce(this.data.length > 0
+      ? formatMessage(this.messages.loaded, { count: this.data.length })
+      : this.messages.empty);
+  }
 
-      return {
-        paymentDate: this.formatDate(coupon.coupondate),
-        rate: coupon.valueprc ? `${coupon.valueprc}%` : "-",
-        amount: coupon.value_rub ? `${coupon.value_rub}₽` : "-",
-        current: status === 'current',
-        disabled: status === 'disabled',
-      };
-    });
+  /**
+   * Оценка неопределенных купонов, если она включена
+   */
+  private prepareData(data: CouponData[]): CouponData[] {
+    return this.options.estimateUnannounced ? estimateUnannounced(data, this.now()) : data;
   }
 
   /**
-   * Определение статуса купона
+   * Текущий момент: опция now или системное время
    */
-  private getCouponStatus(couponDate: string, currentDate: Date, currentCouponDate: string | null): string {
-    const couponDateTime = new Date(couponDate).getTime();
-    const currentDateTime = currentDate.getTime();
+  private now(): Date {
+    return resolveNow(this.options.now);
+  }
 
-    if (couponDate === currentCouponDate) {
-      return 'current';
-    }
+  /**
+   * Режим портфеля: несколько ISIN в одном графике
+   */
+  private isPortfolio(): boolean {
+    return this.options.portfolio.length > 0;
+  }
 
-    if (couponDateTime < currentDateTime) {
-      return 'disabled';
-    } else if (couponDateTime === currentDateTime) {
-      return 'upcoming';
-    } else {
-      return '';
-    }
+  /**
+   * Текущий источник данных: URL или ISIN
+   */
+  private getSource(): string | null {
+    return this.options.url || this.options.isin;
   }
 
   /**
-   * Форматирование даты
+   * Получение провайдера данных с учетом источника
    */
-  private formatDate(dateString: string): string {
-    const date = new Date(dateString);
-    const day = date.getDate().toString().padStart(2, '0');
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const year = date.getFullYear();
-    return `${day}.${month}.${year}`;
+  private getProvider(): CouponsProvider {
+    // MOEX не умеет загружать произвольный URL - используем JSON провайдер
+    if (this.options.url && this.options.provider === 'moex') {
+      return createProvider('json', this.options.mapData);
+    }
+    return createProvider(this.options.provider, this.options.mapData, resolveLocalePack(this.options.locale));
   }
 
   /**
@@ -274,7 +1218,28 @@ export default class CouponsWidget {
    */
   private showLoading(): void {
     if (!this.container) return;
-    this.container.empty().addChild(this.elems().loadingElem());
+    this.clearContent();
+    this.container.setAttr('aria-busy', 'true').addChild(this.elems().loadingElem());
+    this.announce(this.messages.loading);
+  }
+
+  /**
+   * Локализованный текст ошибки
+   */
+  private errorMessage(error: unknown): string {
+    if (error instanceof CouponsWidgetError) {
+      switch (error.type) {
+        case 'network':
+          return this.messages.networkError;
+        case 'timeout':
+          return this.messages.timeoutError;
+        case 'parse':
+        case 'config':
+          return describeError(error, this.messages);
+      }
+    }
+    // Ошибки пользовательских провайдеров показываем как есть
+    return error instanceof Error ? error.message : this.messages.unknownError;
   }
 
   /**
@@ -282,32 +1247,237 @@ export default class CouponsWidget {
    */
   private showError(message: string): void {
     if (!this.container) return;
-    this.container.empty().addChild(this.elems().errorElem(message));
+    this.clearContent();
+    this.container.addChild(this.elems().errorElem(message));
+    this.announce(`${this.messages.errorPrefix}: ${message}`);
+  }
+
+  /**
+   * Очистка контейнера с сохранением области объявлений
+   */
+  private clearContent(): void {
+    if (!this.container) return;
+    this.container.removeAttribute('aria-busy');
+    this.container.replaceChildren(...(this.liveRegion ? [this.liveRegion] : []));
+  }
+
+  /**
+   * Объявление для экранных дикторов: загрузка, ошибка, пустые или полученные данные
+   */
+  private announce(message: string): void {
+    this.liveRegion?.setText(message);
+  }
+
+  /**
+   * Отправка события подписчикам и на контейнер
+   */
+  private emit<K extends CouponsWidgetEventName>(event: K, detail: CouponsWidgetEventMap[K]): void {
+    this.events.emit(event, detail, this.host);
+  }
+
+  /**
+   * Подписаться на событие виджета
+   */
+  public on<K extends CouponsWidgetEventName>(event: K, handler: CouponsWidgetEventHandler<K>): this {
+    this.events.on(event, handler);
+    return this;
+  }
+
+  /**
+   * Отписаться от события (без handler - от всех подписчиков события)
+   */
+  public off<K extends CouponsWidgetEventName>(event: K, handler?: CouponsWidgetEventHandler<K>): this {
+    this.events.off(event, handler);
+    return this;
   }
 
   /**
    * Загрузить данные по ISIN или URL
    */
   public async load(isinOrUrl: string): Promise<void> {
-    this.options.isin = isinOrUrl;
+    this.options.portfolio = [];
+    this.portfolioErrors = [];
+    if (isUrl(isinOrUrl)) {
+      this.options.url = isinOrUrl;
+      this.options.isin = null;
+    } else {
+      this.options.isin = isinOrUrl;
+      this.options.url = null;
+    }
     await this.loadData();
   }
 
+  /**
+   * Загрузить портфель: ISIN или { isin, quantity } для каждой позиции
+   */
+  public async loadPortfolio(positions: PortfolioPosition[]): Promise<void> {
+    this.options.portfolio = positions;
+    this.options.isin = null;
+    this.options.url = null;
+    await this.loadData();
+  }
+
+  /**
+   * Суммы выплат по месяцам для текущего графика
+   */
+  public getMonthlyTotals(): MonthlyTotal[] {
+    return monthlyTotals(this.data);
+  }
+
+  /**
+   * Текущие данные графика
+   */
+  public getData(): CouponData[] {
+    return this.data;
+  }
+
   /**
    * Обновить данные
    */
-  public updateData(newData: CouponData[]): void {
-    this.data = newData;
+  public updateData(newData: CouponDataInput[]): void {
+    this.applyData(newData.map(normalizeCouponData));
+  }
+
+  /**
+   * Раскрыть или свернуть полный график без повторной загрузки
+   */
+  public toggleExpanded(expanded: boolean = !this.expanded): void {
+    this.expanded = expanded;
+    this.render();
+  }
+
+  /**
+   * Переключить вид отображения без повторной загрузки
+   */
+  public setView(view: WidgetView): void {
+    this.options.view = view;
+    this.render();
+  }
+
+  /**
+   * Задать количество облигаций для калькулятора дохода
+   */
+  public setQuantity(quantity: number): void {
+    this.options.quantity = normalizeQuantity(quantity);
     this.render();
   }
 
+  /**
+   * Доход по позиции из quantity облигаций с учетом настройки НДФЛ
+   */
+  public getIncome(): IncomeTotals {
+    return calculateIncome(this.data, {
+      // Суммы портфеля уже учитывают количество облигаций в позициях
+      quantity: this.isPortfolio() ? 1 : this.options.quantity,
+      incomeTax: this.options.incomeTax,
+      now: this.now(),
+    });
+  }
+
+  /**
+   * Чистая цена в процентах от номинала: из опции price или загруженная провайдером
+   */
+  public getPrice(): number | null {
+    return this.options.price ?? this.marketPrice;
+  }
+
+  /**
+   * НКД, текущая доходность и доходность к погашению или оферте по текущей цене
+   */
+  public getYield(): YieldMetrics {
+    return calculateYield(this.data, this.getPrice(), this.now());
+  }
+
+  /**
+   * Предстоящие выплаты и оферты в формате iCalendar (.ics)
+   */
+  public exportICS(): string {
+    return toICS(this.data, {
+      isin: this.options.isin,
+      messages: this.messages,
+      formatter: this.formatter,
+      now: this.now(),
+    });
+  }
+
+  /**
+   * Весь график в CSV
+   */
+  public exportCSV(): string {
+    return toCSV(this.data);
+  }
+
   /**
    * Уничтожить виджет
    */
   public destroy(): void {
+    this.abortRequest();
+    this.events.clear();
     if (this.container) {
+      this.container.removeEventListener('click', this.handleItemEvent);
+      this.container.removeEventListener('keydown', this.handleItemEvent);
       this.container.empty();
     }
+    this.liveRegion = null;
+    if (this.host && instances.get(this.host) === this) {
+      instances.delete(this.host);
+    }
+  }
+
+  /**
+   * Экземпляр виджета, связанный с элементом
+   */
+  public static getInstance(element: HTMLElement): CouponsWidget | null {
+    return instances.get(element) || null;
+  }
+
+  /**
+   * Инициализация всех [data-coupons-widget] внутри root по их data-атрибутам.
+   * Уже инициализированные элементы пропускаются. Если виджет не удалось создать
+   * (некорректные атрибуты), на элементе отправляется событие coupons-widget:error.
+   */
+  public static initAll(root: ParentNode = document): CouponsWidget[] {
+    const elements = Array.from(root.querySelectorAll<HTMLElement>(WIDGET_SELECTOR));
+    if (root instanceof HTMLElement && root.matches(WIDGET_SELECTOR)) {
+      elements.unshift(root);
+    }
+
+    return elements
+      .filter(element => !instances.has(element))
+      .flatMap(element => {
+        try {
+          return [new CouponsWidget({ ...optionsFromElement(element), container: element })];
+        } catch (error) {
+          // Ошибка одного контейнера не мешает остальным
+          dispatchCreateError(element, error, element.getAttribute('data-locale') || undefined);
+          return [];
+        }
+      });
+  }
+
+  /**
+   * Очистить общий кэш загрузок целиком или по ISIN/URL (для всех провайдеров и языков)
+   */
+  public static clearCache(source?: string): void {
+    clearCache(source);
+  }
+
+  /**
+   * Заполнить общий кэш данными для ISIN/URL без запроса. Данные получат виджеты
+   * с тем же провайдером, функцией преобразования и языком (по умолчанию MOEX на русском).
+   */
+  public static primeCache(
+    source: string,
+    data: CouponDataInput[],
+    persist: boolean = false,
+    options: Pick<CouponsWidgetOptions, 'provider' | 'mapData' | 'locale'> = {}
+  ): void {
+    const scope = cacheScope(source, {
+      provider: options.provider || 'moex',
+      mapData: options.mapData || null,
+      locale: options.locale || 'ru-RU',
+    });
+    primeCache(cacheKey(scope.name, source), data.map(normalizeCouponData), persist && scope.persistable);
   }
 
   /**
@@ -318,6 +1488,79 @@ export default class CouponsWidget {
   }
 }
 
+/**
+ * Сохранение текстового файла через временную ссылку
+ */
+function downloadFile(fileName: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+  const link = ElementBuilder.create('a')
+    .setAttr({ href: url, download: fileName })
+    .setStyle('display', 'none')
+    .appendTo(document.body);
+
+  link.click();
+  link.remove();
+  // Браузер начинает загрузку асинхронно: немедленный отзыв URL может ее прервать
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Номера пользовательских провайдеров и функций преобразования в областях кэша
+const scopeIds = new WeakMap<object, number>();
+let lastScopeId = 0;
+
+/**
+ * Область кэша источника: провайдер, функция преобразования и язык ISS.
+ * Номера пользовательских функций действуют до перезагрузки страницы,
+ * поэтому такие области не сохраняются в localStorage.
+ */
+function cacheScope(
+  source: string,
+  { provider, mapData, locale }: Pick<Required<CouponsWidgetOptions>, 'provider' | 'mapData' | 'locale'>
+): { name: string; persistable: boolean } {
+  // MOEX не загружает URL - по URL работает JSON провайдер (как в getProvider)
+  const kind = isUrl(source) && provider === 'moex' ? 'json' : provider;
+
+  if (typeof kind !== 'string') {
+    return { name: `custom${scopeId(kind)}`, persistable: false };
+  }
+  if (kind === 'moex') {
+    return { name: `moex/${resolveLocalePack(locale)}`, persistable: true };
+  }
+  return mapData
+    ? { name: `json/map${scopeId(mapData)}`, persistable: false }
+    : { name: 'json', persistable: true };
+}
+
+function scopeId(value: object): number {
+  let id = scopeIds.get(value);
+  if (id === undefined) {
+    id = ++lastScopeId;
+    scopeIds.set(value, id);
+  }
+  return id;
+}
+
+/**
+ * Ключ записи: облигация, тип и дата выплаты
+ */
+function itemKey(item: CouponData): string {
+  return [item.isin, item.type || 'coupon', formatIsoDate(item.date)].filter(Boolean).join(':');
+}
+
+/**
+ * Ключ месяца для группировки
+ */
+function monthKey(date: Date): number {
+  return date.getFullYear() * 12 + date.getMonth();
+}
+
+/**
+ * Количество облигаций - целое число не меньше 1
+ */
+function normalizeQuantity(quantity: number): number {
+  return Number.isFinite(quantity) ? Math.max(1, Math.floor(quantity)) : 1;
+}
+
 // Глобальный экспорт для браузера
 if (typeof window !== 'undefined') {
   (window as any).CouponsWidget = CouponsWidget;
@@ -0,0 +1,79 @@
+/**
+ * Миллисекунд в сутках
+ */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Начало суток для даты
+ */
+export function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/**
+ * Дата в формате ГГГГ-ММ-ДД
+ */
+export function formatIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Число календарных дней между датами
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Часовой пояс Московской биржи: даты ISS - календарные даты по Москве
+ */
+export const EXCHANGE_TIME_ZONE = 'Europe/Moscow';
+
+/**
+ * Источник текущего момента: фиксированная дата или функция (для тестов и предпросмотра)
+ */
+export type Clock = Date | (() => Date);
+
+let exchangeDateFormat: Intl.DateTimeFormat | null = null;
+
+/**
+ * Календарная дата ГГГГ-ММ-ДД как полночь по местному времени.
+ * new Date('ГГГГ-ММ-ДД') дает полночь UTC, и западнее UTC день сдвигается на предыдущий.
+ */
+export function parseIsoDate(value: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value.trim());
+  return match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    : new Date(value);
+}
+
+/**
+ * Текущая дата биржи (по Москве) в момент now - полночь по местному времени,
+ * сравнимая с датами графика в любом часовом поясе пользователя
+ */
+export function exchangeToday(now: Date = new Date()): Date {
+  if (!exchangeDateFormat) {
+    exchangeDateFormat = new Intl.DateTimeFormat('en-US', {
+      timeZone: EXCHANGE_TIME_ZONE,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+    });
+  }
+
+  const parts = Object.fromEntries(exchangeDateFormat.formatToParts(now)
+    .map(part => [part.type, Number(part.value)]));
+  return new Date(parts.year, parts.month - 1, parts.day);
+}
+
+/**
+ * Текущий момент по часам из опций
+ */
+export function resolveNow(clock: Clock | null | undefined): Date {
+  if (typeof clock === 'function') return clock();
+  return clock ? new Date(clock) : new Date();
+}
@@ -0,0 +1,218 @@
+import { describe, expect, it, vi } from 'vitest';
+import ElementBuilder, { EnhancedElement } from './element-builder';
+
+/**
+ * Список с записями по ключам
+ */
+function list(keys: string[], text: (key: string) => string = key => key) {
+  return keys.map(key => ElementBuilder.create('li').setAttr('data-key', key).setText(text(key)));
+}
+
+describe('ElementBuilder.patch', () => {
+  it('сохраняет узлы с тем же ключом и меняет их порядок', () => {
+    const parent = ElementBuilder.create('ul');
+    ElementBuilder.patch(parent, list(['a', 'b', 'c']));
+    const [a, b] = Array.from(parent.children);
+
+    ElementBuilder.patch(parent, list(['b', 'a'], key => key.toUpperCase()));
+
+    expect(Array.from(parent.children)).toEqual([b, a]);
+    expect(parent.textContent).toBe('BA');
+  });
+
+  it('обновляет атрибуты и переносит обработчики on()', () => {
+    const parent = ElementBuilder.create('div');
+    const first = vi.fn();
+    const second = vi.fn();
+    ElementBuilder.patch(parent, [ElementBuilder.create('button').addClass('old').on('click', first)]);
+    const button = parent.firstElementChild as HTMLElement;
+
+    ElementBuilder.patch(parent, [ElementBuilder.create('button').addClass('new').on('click', second)]);
+    button.click();
+
+    expect(parent.firstElementChild).toBe(button);
+    expect(button.className).toBe('new');
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('переносит состояние полей формы, измененное пользователем', () => {
+    const parent = ElementBuilder.create('form');
+    const select = () => ElementBuilder.create('select').addChild(
+      ElementBuilder.create('option').setAttr('value', 'a'),
+      ElementBuilder.create('option').setAttr({ value: 'b', selected: '' }),
+    );
+    ElementBuilder.patch(parent, [ElementBuilder.create('input').setAttr('type', 'checkbox'), select()]);
+    const [checkbox, list] = Array.from(parent.children) as [HTMLInputElement, HTMLSelectElement];
+    checkbox.checked = true;
+    list.value = 'a';
+
+    ElementBuilder.patch(parent, [ElementBuilder.create('input').setAttr('type', 'checkbox'), select()]);
+
+    expect(parent.firstElementChild).toBe(checkbox);
+    expect(checkbox.checked).toBe(false);
+    expect(list.value).toBe('b');
+  });
+
+  it('не переносит сработавший обработчик once()', () => {
+    const parent = ElementBuilder.create('div');
+    const handler = vi.fn();
+    ElementBuilder.patch(parent, [ElementBuilder.create('button').once('click', handler)]);
+    const button = parent.firstElementChild as HTMLElement;
+    button.click();
+
+    ElementBuilder.patch(parent, [ElementBuilder.create('button').once('click', handler)]);
+    button.click();
+    button.click();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('снимает обработчик once() через off()', () => {
+    const handler = vi.fn();
+    const button = ElementBuilder.create('button').once('click', handler).off('click', handler);
+
+    button.click();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('заменяет узел, помеченный replaceOnPatch', () => {
+    const parent = ElementBuilder.create('ul');
+    const handler = vi.fn();
+    ElementBuilder.patch(parent, list(['a']));
+    const item = document.createElement('li');
+    item.setAttribute('data-key', 'a');
+    item.addEventListener('click', handler);
+
+    ElementBuilder.patch(parent, [ElementBuilder.replaceOnPatch(item)]);
+    (parent.firstElementChild as HTMLElement).click();
+
+    expect(parent.firstElementChild).toBe(item);
+    expect(parent.children).toHaveLength(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('setStyle', () => {
+  it('задает пользовательские свойства CSS и свойства через дефис', () => {
+    const el = ElementBuilder.div()
+      .setStyle('--cw-accent', 'red')
+      .setStyle({ '--cw-radius': '4px', 'font-size': '12px', marginTop: '2px' });
+
+    expect(el.style.getPropertyValue('--cw-accent')).toBe('red');
+    expect(el.style.getPropertyValue('--cw-radius')).toBe('4px');
+    expect(el.style.fontSize).toBe('12px');
+    expect(el.style.marginTop).toBe('2px');
+  });
+});
+
+describe('ElementBuilder.enhance', () => {
+  it('добавляет те же методы, что и у созданных элементов', () => {
+    const host = document.createElement('div');
+    const anchor = document.createElement('span');
+    document.body.append(anchor);
+
+    const enhanced: EnhancedElement<'div'> = ElementBuilder.enhance(host);
+    enhanced.addClass('widget');
+    const created = ElementBuilder.div();
+    Object.keys(created).forEach(method => expect(enhanced).toHaveProperty(method, (created as any)[method]));
+
+    expect(enhanced.insertBefore(anchor)).toBe(host);
+    expect(anchor.previousSibling).toBe(host);
+    expect(enhanced.remove()).toBe(host);
+    expect(host.isConnected).toBe(false);
+    expect(host.className).toBe('widget');
+  });
+});
+
+/**
+ * Разметка узла или фрагмента
+ */
+function markup(node: Node): string {
+  const container = document.createElement('div');
+  container.append(node);
+  return container.innerHTML;
+}
+
+describe('ElementBuilder.sanitize', () => {
+  it('удаляет скрипты и обработчики событий', () => {
+    expect(markup(ElementBuilder.sanitize('<p onclick="alert(1)">Купон<script>alert(2)</script></p><img src=x onerror="alert(3)">')))
+      .toBe('<p>Купон</p>');
+  });
+
+  it('разворачивает неразрешенные теги, сохраняя текст', () => {
+    expect(markup(ElementBuilder.sanitize('<font color="red"><b>12%</b> годовых</font>')))
+      .toBe('<b>12%</b> годовых');
+  });
+
+  it('оставляет только безопасные ссылки', () => {
+    expect(markup(ElementBuilder.sanitize(
+      '<a href="https://moex.com">MOEX</a><a href=" java\tscript:alert(1)">x</a><a href="/bonds?isin=RU1">y</a>'
+    ))).toBe('<a href="https://moex.com">MOEX</a><a>x</a><a href="/bonds?isin=RU1">y</a>');
+  });
+
+  it('сохраняет aria- и data-атрибуты и отбрасывает style', () => {
+    expect(markup(ElementBuilder.sanitize('<span data-key="1" aria-label="Ставка" style="color:red" id="x">10%</span>')))
+      .toBe('<span data-key="1" aria-label="Ставка">10%</span>');
+  });
+
+  it('принимает собственные списки тегов и атрибутов', () => {
+    const fragment = ElementBuilder.sanitize('<mark class="hit" id="x" onclick="f()">ОФЗ</mark><b>26238</b>', {
+      tags: ['mark'],
+      attributes: ['class', 'onclick'],
+    });
+
+    expect(markup(fragment)).toBe('<mark class="hit">ОФЗ</mark>26238');
+  });
+
+  it('применяется в setHtml с опцией sanitize', () => {
+    const element = ElementBuilder.create('div').setHtml('<em>ок</em><iframe src="https://evil"></iframe>', { sanitize: true });
+
+    expect(element.innerHTML).toBe('<em>ок</em>');
+  });
+});
+
+describe('ElementBuilder.html', () => {
+  it('экранирует подставленные строки', () => {
+    const name = '<img src=x onerror="alert(1)">';
+    const element = ElementBuilder.html`<li class="${'coupon"><script>'}">${name}</li>`;
+
+    expect(markup(element)).toBe('<li class="coupon&quot;><script>">&lt;img src=x onerror="alert(1)"&gt;</li>');
+  });
+
+  it('задает значения атрибутов без разбора разметки', () => {
+    const element = ElementBuilder.html`<span title="${'x onmouseover=alert(1)'}" class='a ${'b" onclick="alert(1)'}'>1</span>`;
+
+    expect(markup(element)).toBe('<span title="x onmouseover=alert(1)" class="a b&quot; onclick=&quot;alert(1)">1</span>');
+  });
+
+  it('отбрасывает небезопасные ссылки', () => {
+    const unsafe = ElementBuilder.html`<a href="${'javascript:alert(1)'}">1</a>`;
+    const safe = ElementBuilder.html`<a href="${'https://example.com/?a=1&b=2'}">1</a>`;
+
+    expect(markup(unsafe)).toBe('<a>1</a>');
+    expect(markup(safe)).toBe('<a href="https://example.com/?a=1&amp;b=2">1</a>');
+  });
+
+  it('не подставляет значения вне текста и атрибутов в кавычках', () => {
+    expect(() => ElementBuilder.html`<span title=${'x onmouseover=alert(1)'}>1</span>`).toThrow(Error);
+    expect(() => ElementBuilder.html`<${'img src=x onerror=alert(1)'}>`).toThrow(Error);
+    expect(() => ElementBuilder.html`<button onclick="${'alert(1)'}">1</button>`).toThrow(Error);
+    expect(() => ElementBuilder.html`<script>${'alert(1)'}</script>`).toThrow(Error);
+  });
+
+  it('вставляет узлы и массивы как есть и пропускает пустые значения', () => {
+    const badge = ElementBuilder.span('оценка', 'badge');
+    const element = ElementBuilder.html`<div>${[1, 2].map(n => ElementBuilder.html`<b>${n}</b>`)}${badge}${null}${false}</div>`;
+
+    expect(markup(element)).toBe('<div><b>1</b><b>2</b><span class="badge">оценка</span></div>');
+  });
+
+  it('возвращает фрагмент для нескольких корневых узлов', () => {
+    const result = ElementBuilder.html`<b>1</b><b>2</b>`;
+
+    expect(result).toBeInstanceOf(DocumentFragment);
+    expect(markup(result)).toBe('<b>1</b><b>2</b>');
+  });
+});
@@ -7,57 +7,74 @@ export type DatasetObject = Record<string, string>;
 export type ParentSelector = string | HTMLElement | Element;
 export type EventOptions = AddEventListenerOptions | boolean;
 
-// Enhanced element type using intersection instead of interface extension  
+// Allow-lists for sanitized HTML; attribute entries ending with "*" are prefixes (e.g. "aria-*")
+export interface SanitizeOptions {
+  tags?: string[];
+  attributes?: string[];
+}
+
+// Options of setHtml/appendHtml; raw HTML is inserted as is unless sanitize is set
+export interface HtmlOptions {
+  sanitize?: boolean | SanitizeOptions;
+}
+
+// Builder methods shared by enhanced HTML and SVG elements
+export interface EnhancedMethods<Self> {
+  // Child manipulation with overloads
+  addChild(...children: ChildElement[]): Self;
+  addChildren(children: ChildElement[]): Self;
+  addChildrenWithSeparator(children: ChildElement[], separator?: string): Self;
+  createAndAdd<K extends keyof HTMLElementTagNameMap>(
+    tag: K,
+    configFn?: (element: EnhancedElement<K>) => void
+  ): Self;
+
+  // CSS classes
+  addClass(className: CSSClassValue): Self;
+  removeClass(className: CSSClassValue): Self;
+  toggleClass(className: string): Self;
+  hasClass(className: string): boolean;
+
+  // Attributes - with proper overloads
+  setAttr(name: string, value: string): Self;
+  setAttr(attributes: AttributeObject): Self;
+  removeAttr(name: string): Self;
+
+  // Content
+  setText(text: string): Self;
+  setHtml(html: string, options?: HtmlOptions): Self;
+  appendHtml(html: string, options?: HtmlOptions): Self;
+
+  // Styles - with proper overloads
+  setStyle(property: string, value: string | number): Self;
+  setStyle(styles: StyleObject): Self;
+
+  // Data attributes - with proper overloads
+  setData(key: string, value: string): Self;
+  setData(data: DatasetObject): Self;
+
+  // Events
+  on(event: string, handler: EventListener, options?: EventOptions): Self;
+  off(event: string, handler: EventListener, options?: EventOptions): Self;
+  once(event: string, handler: EventListener): Self;
+
+  // DOM manipulation
+  appendTo(parent: ParentSelector): Self;
+  prependTo(parent: ParentSelector): Self;
+  insertAfter(target: ParentSelector): Self;
+  insertBefore(target: ParentSelector): Self;
+  remove(): Self;
+  empty(): Self;
+  clone(deep?: boolean): Self;
+}
+
+// Enhanced element type using intersection instead of interface extension
 export type EnhancedElement<T extends keyof HTMLElementTagNameMap = keyof HTMLElementTagNameMap> =
-  HTMLElementTagNameMap[T] & {
-
-    // Child manipulation with overloads
-    addChild(...children: ChildElement[]): EnhancedElement<T>;
-    addChildren(children: ChildElement[]): EnhancedElement<T>;
-    addChildrenWithSeparator(children: ChildElement[], separator?: string): EnhancedElement<T>;
-    createAndAdd<K extends keyof HTMLElementTagNameMap>(
-      tag: K,
-      configFn?: (element: EnhancedElement<K>) => void
-    ): EnhancedElement<T>;
-
-    // CSS classes
-    addClass(className: CSSClassValue): EnhancedElement<T>;
-    removeClass(className: CSSClassValue): EnhancedElement<T>;
-    toggleClass(className: string): EnhancedElement<T>;
-    hasClass(className: string): boolean;
-
-    // Attributes - with proper overloads
-    setAttr(name: string, value: string): EnhancedElement<T>;
-    setAttr(attributes: AttributeObject): EnhancedElement<T>;
-    removeAttr(name: string): EnhancedElement<T>;
-
-    // Content
-    setText(text: string): EnhancedElement<T>;
-    setHtml(html: string): EnhancedElement<T>;
-    appendHtml(html: string): EnhancedElement<T>;
-
-    // Styles - with proper overloads
-    setStyle(property: string, value: string | number): EnhancedElement<T>;
-    setStyle(styles: StyleObject): EnhancedElement<T>;
-
-    // Data attributes - with proper overloads
-    setData(key: string, value: string): EnhancedElement<T>;
-    setData(data: DatasetObject): EnhancedElement<T>;
-
-    // Events
-    on(event: string, handler: EventListener, options?: EventOptions): EnhancedElement<T>;
-    off(event: string, handler: EventListener, options?: EventOptions): EnhancedElement<T>;
-    once(event: string, handler: EventListener): EnhancedElement<T>;
-
-    // DOM manipulation
-    appendTo(parent: ParentSelector): EnhancedElement<T>;
-    prependTo(parent: ParentSelector): EnhancedElement<T>;
-    insertAfter(target: ParentSelector): EnhancedElement<T>;
-    insertBefore(target: ParentSelector): EnhancedElement<T>;
-    remove(): EnhancedElement<T>;
-    empty(): EnhancedElement<T>;
-    clone(deep?: boolean): EnhancedElement<T>;
-  };
+  HTMLElementTagNameMap[T] & EnhancedMethods<EnhancedElement<T>>;
+
+// Enhanced SVG element type (created in the SVG namespace)
+export type EnhancedSvgElement<T extends keyof SVGElementTagNameMap = keyof SVGElementTagNameMap> =
+  SVGElementTagNameMap[T] & EnhancedMethods<EnhancedSvgElement<T>>;
 
 // Enhanced fragment type
 export type EnhancedFragment = DocumentFragment & {
@@ -65,6 +82,298 @@ export type EnhancedFragment = DocumentFragment & {
   appendTo(parent: ParentSelector): EnhancedFragment;
 };
 
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+// Key attribute used by patch() to match nodes regardless of position
+const KEY_ATTRIBUTE = 'data-key';
+
+interface TrackedListener {
+  event: string;
+  handler: EventListener;
+  options: EventOptions | undefined;
+  // Handler passed to once(), wrapped by the registered handler
+  original?: EventListener;
+}
+
+// Default allow-lists of the HTML sanitizer
+const SAFE_TAGS = [
+  'a', 'abbr', 'b', 'br', 'code', 'div', 'em', 'i', 'li', 'ol', 'p', 'small', 'span', 'strong',
+  'sub', 'sup', 'table', 'tbody', 'td', 'th', 'thead', 'time', 'tr', 'u', 'ul',
+];
+const SAFE_ATTRIBUTES = [
+  'class', 'title', 'href', 'lang', 'dir', 'datetime', 'colspan', 'rowspan', 'aria-*', 'data-*',
+];
+
+// Dropped with their content instead of being unwrapped
+const DROPPED_TAGS = ['script', 'style', 'template', 'iframe', 'object', 'embed', 'noscript', 'svg', 'math'];
+
+// Attributes holding URLs and the schemes allowed in them
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href'];
+// Relative URLs have no colon before the first "/", "?" or "#"
+const SAFE_URL = /^(?:https?:|mailto:|tel:|[^:/?#]*(?:[/?#]|$))/i;
+
+// Placeholder of a value interpolated into a quoted attribute by html``
+const ATTRIBUTE_PLACEHOLDER = /\uE000(\d+)\uE001/g;
+// Elements whose content is not parsed as HTML, so escaping cannot protect it
+const RAW_TEXT_TAGS = ['script', 'style'];
+
+// Where the html`` markup is at the end of a static part of the template
+interface TemplateState {
+  context: 'text' | 'tag' | 'attribute' | 'comment' | 'raw';
+  // Quote that closes the current attribute value
+  quote: string;
+  // Name of the current start tag or raw text element
+  tag: string;
+}
+
+// Listeners added with on() and once(), moved to the reused element by patch()
+const listeners = new WeakMap<Element, TrackedListener[]>();
+
+// Nodes patch() replaces instead of morphing: their listeners may be untracked
+const replacedOnPatch = new WeakSet<Node>();
+
+// Element with builder methods, `this` inside the shared methods
+type BuilderElement = (HTMLElement | SVGElement) & EnhancedMethods<BuilderElement>;
+
+/**
+ * Builder methods shared by created and enhanced elements. The same function
+ * objects are mixed into every element; `this` is the element itself.
+ * Typed as EnhancedMethods, so every method is implemented with its signature.
+ */
+const enhancedMethods: EnhancedMethods<BuilderElement> & ThisType<BuilderElement> = {
+  // Add child elements with support for arrays and various types
+  addChild(...children: ChildElement[]) {
+    children.forEach(child => {
+      if (Array.isArray(child)) {
+        this.addChild(...child);
+      } else if (typeof child === 'string' || typeof child === 'number') {
+        this.appendChild(document.createTextNode(String(child)));
+      } else if (child instanceof Node) {
+        this.appendChild(child);
+      } else if (child !== null && child !== undefined) {
+        this.appendChild(document.createTextNode(String(child)));
+      }
+    });
+    return this;
+  },
+
+  // Alternative method for adding multiple elements
+  addChildren(children: ChildElement[]) {
+    if (Array.isArray(children)) {
+      return this.addChild(...children);
+    }
+    return this.addChild(children);
+  },
+
+  // Add elements with separator
+  addChildrenWithSeparator(children: ChildElement[], separator: string = ', ') {
+    if (!Array.isArray(children) || children.length === 0) return this;
+
+    children.forEach((child, index) => {
+      this.addChild(child);
+      if (index < children.length - 1) {
+        this.addChild(separator);
+      }
+    });
+    return this;
+  },
+
+  // Quick create and add method
+  createAndAdd<T extends keyof HTMLElementTagNameMap>(
+    tag: T,
+    configFn?: (element: EnhancedElement<T>) => void
+  ) {
+    const newElement = ElementBuilder.create(tag);
+    if (typeof configFn === 'function') {
+      configFn(newElement);
+    }
+    return this.addChild(newElement);
+  },
+
+  // CSS class methods
+  addClass(className: CSSClassValue) {
+    if (Array.isArray(className)) {
+      this.classList.add(...className);
+    } else {
+      this.classList.add(className);
+    }
+    return this;
+  },
+
+  removeClass(className: CSSClassValue) {
+    if (Array.isArray(className)) {
+      this.classList.remove(...className);
+    } else {
+      this.classList.remove(className);
+    }
+    return this;
+  },
+
+  toggleClass(className: string) {
+    this.classList.toggle(className);
+    return this;
+  },
+
+  hasClass(className: string): boolean {
+    return this.classList.contains(className);
+  },
+
+  // Attribute methods with proper overloads
+  setAttr(nameOrAttributes: string | AttributeObject, value?: string) {
+    if (typeof nameOrAttributes === 'object') {
+      Object.entries(nameOrAttributes).forEach(([key, val]) => {
+        this.setAttribute(key, val);
+      });
+    } else {
+      this.setAttribute(nameOrAttributes, value!);
+    }
+    return this;
+  },
+
+  removeAttr(name: string) {
+    this.removeAttribute(name);
+    return this;
+  },
+
+  // Content methods
+  setText(text: string) {
+    this.textContent = text;
+    return this;
+  },
+
+  setHtml(html: string, options: HtmlOptions = {}) {
+    if (options.sanitize) {
+      this.replaceChildren(ElementBuilder.sanitize(html, options.sanitize === true ? {} : options.sanitize));
+    } else {
+      this.innerHTML = html;
+    }
+    return this;
+  },
+
+  appendHtml(html: string, options: HtmlOptions = {}) {
+    if (options.sanitize) {
+      this.appendChild(ElementBuilder.sanitize(html, options.sanitize === true ? {} : options.sanitize));
+    } else {
+      this.insertAdjacentHTML('beforeend', html);
+    }
+    return this;
+  },
+
+  // Style methods with proper overloads
+  setStyle(propertyOrStyles: string | StyleObject, value?: string | number) {
+    if (typeof propertyOrStyles === 'object') {
+      Object.entries(propertyOrStyles).forEach(([property, styleValue]) =>
+        setStyleProperty(this.style, property, styleValue));
+    } else {
+      setStyleProperty(this.style, propertyOrStyles, value!);
+    }
+    return this;
+  },
+
+  // Data attribute methods with proper overloads
+  setData(keyOrData: string | DatasetObject, value?: string) {
+    if (typeof keyOrData === 'object') {
+      Object.entries(keyOrData).forEach(([k, v]) => {
+        this.dataset[k] = v;
+      });
+    } else {
+      this.dataset[keyOrData] = value!;
+    }
+    return this;
+  },
+
+  // Event methods
+  on(event: string, handler: EventListener, options?: EventOptions) {
+    this.addEventListener(event, handler, options);
+    listeners.set(this, [...(listeners.get(this) || []), { event, handler, options }]);
+    return this;
+  },
+
+  off(event: string, handler: EventListener, options?: EventOptions) {
+    this.removeEventListener(event, handler, options);
+    // A once() handler is registered through its wrapper
+    const tracked = listeners.get(this) || [];
+    tracked.forEach(listener => {
+      if (listener.event === event && listener.original === handler) {
+        this.removeEventListener(event, listener.handler, listener.options);
+      }
+    });
+    listeners.set(this, tracked.filter(listener =>
+      listener.event !== event || (listener.handler !== handler && listener.original !== handler)));
+    return this;
+  },
+
+  once(event: string, handler: EventListener) {
+    // The wrapper forgets itself on the element it fired on (patch() may have moved it)
+    const wrapper: EventListener = function (this: unknown, e: Event) {
+      const target = e.currentTarget as Element;
+      listeners.set(target, (listeners.get(target) || []).filter(listener => listener.handler !== wrapper));
+      handler.call(this, e);
+    };
+    const options = { once: true };
+    this.addEventListener(event, wrapper, options);
+    listeners.set(this, [...(listeners.get(this) || []), { event, handler: wrapper, options, original: handler }]);
+    return this;
+  },
+
+  // DOM manipulation methods. Parents may be enhanced as well, so the native insertBefore is used
+  appendTo(parent: ParentSelector) {
+    const parentElement = typeof parent === 'string'
+      ? document.querySelector(parent)
+      : parent;
+    if (parentElement) {
+      parentElement.appendChild(this);
+    }
+    return this;
+  },
+
+  prependTo(parent: ParentSelector) {
+    const parentElement = typeof parent === 'string'
+      ? document.querySelector(parent)
+      : parent;
+    if (parentElement) {
+      Node.prototype.insertBefore.call(parentElement, this, parentElement.firstChild);
+    }
+    return this;
+  },
+
+  insertAfter(target: ParentSelector) {
+    const targetElement = typeof target === 'string'
+      ? document.querySelector(target)
+      : target;
+    if (targetElement && targetElement.parentNode) {
+      Node.prototype.insertBefore.call(targetElement.parentNode, this, targetElement.nextSibling);
+    }
+    return this;
+  },
+
+  insertBefore(target: ParentSelector) {
+    const targetElement = typeof target === 'string'
+      ? document.querySelector(target)
+      : target;
+    if (targetElement && targetElement.parentNode) {
+      Node.prototype.insertBefore.call(targetElement.parentNode, this, targetElement);
+    }
+    return this;
+  },
+
+  remove() {
+    if (this.parentNode) {
+      this.parentNode.removeChild(this);
+    }
+    return this;
+  },
+
+  empty() {
+    this.innerHTML = '';
+    return this;
+  },
+
+  clone(deep: boolean = true) {
+    return Object.assign(this.cloneNode(deep) as BuilderElement, enhancedMethods);
+  },
+};
+
 /**
  * TypeScript ElementBuilder with fluent interface for DOM manipulation
  */
@@ -76,318 +385,230 @@ export default class ElementBuilder {
   static create<K extends keyof HTMLElementTagNameMap>(
     tag: K = 'div' as K
   ): EnhancedElement<K> {
-    const element = document.createElement(tag) as HTMLElementTagNameMap[K];
-
-    // Add child elements with support for arrays and various types
-    (element as any).addChild = (...children: ChildElement[]): EnhancedElement<K> => {
-      children.forEach(child => {
-        if (Array.isArray(child)) {
-          (element as any).addChild(...child);
-        } else if (typeof child === 'string' || typeof child === 'number') {
-          element.appendChild(document.createTextNode(String(child)));
-        } else if (child instanceof Node) {
-          element.appendChild(child);
-        } else if (child !== null && child !== undefined) {
-          element.appendChild(document.createTextNode(String(child)));
-        }
-      });
-      return element as EnhancedElement<K>;
-    };
+    return ElementBuilder.attachMethods(document.createElement(tag)) as EnhancedElement<K>;
+  }
 
-    // Alternative method for adding multiple elements
-    (element as any).addChildren = (children: ChildElement[]): EnhancedElement<K> => {
-      if (Array.isArray(children)) {
-        return (element as any).addChild(...children);
-      }
-      return (element as any).addChild(children);
-    };
+  /**
+   * Create SVG element (in the SVG namespace) with the same enhanced methods
+   */
+  static createSvg<K extends keyof SVGElementTagNameMap>(tag: K): EnhancedSvgElement<K> {
+    return ElementBuilder.attachMethods(document.createElementNS(SVG_NAMESPACE, tag)) as EnhancedSvgElement<K>;
+  }
 
-    // Add elements with separator
-    (element as any).addChildrenWithSeparator = (
-      children: ChildElement[],
-      separator: string = ', '
-    ): EnhancedElement<K> => {
-      if (!Array.isArray(children) || children.length === 0) return element as EnhancedElement<K>;
-
-      children.forEach((child, index) => {
-        (element as any).addChild(child);
-        if (index < children.length - 1) {
-          (element as any).addChild(separator);
-        }
-      });
-      return element as EnhancedElement<K>;
-    };
+  /**
+   * Attach builder methods to an HTML or SVG element
+   */
+  private static attachMethods<E extends HTMLElement | SVGElement>(element: E): E {
+    return Object.assign(element, enhancedMethods);
+  }
 
-    // Quick create and add method
-    (element as any).createAndAdd = <T extends keyof HTMLElementTagNameMap>(
-      tag: T,
-      configFn?: (element: EnhancedElement<T>) => void
-    ): EnhancedElement<K> => {
-      const newElement = ElementBuilder.create(tag);
-      if (typeof configFn === 'function') {
-        configFn(newElement);
-      }
-      return (element as any).addChild(newElement);
-    };
+  /**
+   * Enhance existing element with builder methods (same implementation as create)
+   */
+  static enhance<K extends keyof HTMLElementTagNameMap>(
+    element: HTMLElementTagNameMap[K]
+  ): EnhancedElement<K> {
+    return ElementBuilder.attachMethods(element) as EnhancedElement<K>;
+  }
 
-    // CSS class methods
-    (element as any).addClass = (className: CSSClassValue): EnhancedElement<K> => {
-      if (Array.isArray(className)) {
-        element.classList.add(...className);
+  /**
+   * Update parent's children in place to match the given nodes.
+   * Nodes with data-key are matched by key, others by position and tag name;
+   * matched nodes keep their identity (focus, hover, transitions) and only
+   * changed text, attributes and on()/once() listeners are applied. Nodes already
+   * inside parent and nodes marked with replaceOnPatch() are kept as is.
+   */
+  static patch(parent: Element, children: Node[]): void {
+    const keyed = new Map<string, ChildNode>();
+    const unkeyed: ChildNode[] = [];
+    Array.from(parent.childNodes).forEach(node => {
+      const key = nodeKey(node);
+      if (key !== null && !keyed.has(key)) {
+        keyed.set(key, node);
       } else {
-        element.classList.add(className);
+        unkeyed.push(node);
       }
-      return element as EnhancedElement<K>;
-    };
+    });
 
-    (element as any).removeClass = (className: CSSClassValue): EnhancedElement<K> => {
-      if (Array.isArray(className)) {
-        element.classList.remove(...className);
+    const take = (node: ChildNode) => {
+      const key = nodeKey(node);
+      if (key !== null && keyed.get(key) === node) {
+        keyed.delete(key);
       } else {
-        element.classList.remove(className);
+        unkeyed.splice(unkeyed.indexOf(node), 1);
       }
-      return element as EnhancedElement<K>;
-    };
-
-    (element as any).toggleClass = (className: string): EnhancedElement<K> => {
-      element.classList.toggle(className);
-      return element as EnhancedElement<K>;
     };
 
-    (element as any).hasClass = (className: string): boolean => {
-      return element.classList.contains(className);
-    };
-
-    // Attribute methods with proper overloads
-    (element as any).setAttr = ((
-      nameOrAttributes: string | AttributeObject,
-      value?: string
-    ): EnhancedElement<K> => {
-      if (typeof nameOrAttributes === 'object') {
-        Object.entries(nameOrAttributes).forEach(([key, val]) => {
-          element.setAttribute(key, val);
-        });
-      } else {
-        element.setAttribute(nameOrAttributes, value!);
+    const result = children.map(child => {
+      if (child.parentNode === parent) {
+        take(child as ChildNode);
+        return child;
       }
-      return element as EnhancedElement<K>;
-    });
-
-    (element as any).removeAttr = (name: string): EnhancedElement<K> => {
-      element.removeAttribute(name);
-      return element as EnhancedElement<K>;
-    };
-
-    // Content methods
-    (element as any).setText = (text: string): EnhancedElement<K> => {
-      element.textContent = text;
-      return element as EnhancedElement<K>;
-    };
-
-    (element as any).setHtml = (html: string): EnhancedElement<K> => {
-      element.innerHTML = html;
-      return element as EnhancedElement<K>;
-    };
-
-    (element as any).appendHtml = (html: string): EnhancedElement<K> => {
-      element.insertAdjacentHTML('beforeend', html);
-      return element as EnhancedElement<K>;
-    };
 
-    // Style methods with proper overloads
-    (element as any).setStyle = ((
-      propertyOrStyles: string | StyleObject,
-      value?: string | number
-    ): EnhancedElement<K> => {
-      if (typeof propertyOrStyles === 'object') {
-        Object.assign(element.style, propertyOrStyles);
-      } else {
-        (element.style as any)[propertyOrStyles] = value;
+      const key = nodeKey(child);
+      const match = key !== null
+        ? keyed.get(key)
+        : unkeyed.find(node => nodeKey(node) === null && node.nodeName === child.nodeName);
+      if (!match || match.nodeName !== child.nodeName || replacedOnPatch.has(child)) {
+        return child;
       }
-      return element as EnhancedElement<K>;
-    });
 
-    // Data attribute methods with proper overloads
-    (element as any).setData = ((
-      keyOrData: string | DatasetObject,
-      value?: string
-    ): EnhancedElement<K> => {
-      if (typeof keyOrData === 'object') {
-        Object.entries(keyOrData).forEach(([k, v]) => {
-          element.dataset[k] = v;
-        });
-      } else {
-        element.dataset[keyOrData] = value!;
-      }
-      return element as EnhancedElement<K>;
+      take(match);
+      ElementBuilder.morph(match, child);
+      return match;
     });
 
-    // Event methods
-    (element as any).on = (
-      event: string,
-      handler: EventListener,
-      options?: EventOptions
-    ): EnhancedElement<K> => {
-      element.addEventListener(event, handler, options);
-      return element as EnhancedElement<K>;
-    };
-
-    (element as any).off = (
-      event: string,
-      handler: EventListener,
-      options?: EventOptions
-    ): EnhancedElement<K> => {
-      element.removeEventListener(event, handler, options);
-      return element as EnhancedElement<K>;
-    };
-
-    (element as any).once = (event: string, handler: EventListener): EnhancedElement<K> => {
-      element.addEventListener(event, handler, { once: true });
-      return element as EnhancedElement<K>;
-    };
-
-    // DOM manipulation methods
-    (element as any).appendTo = (parent: ParentSelector): EnhancedElement<K> => {
-      const parentElement = typeof parent === 'string'
-        ? document.querySelector(parent)
-        : parent;
-      if (parentElement) {
-        parentElement.appendChild(element);
-      }
-      return element as EnhancedElement<K>;
-    };
+    keyed.forEach(node => node.remove());
+    unkeyed.forEach(node => node.remove());
 
-    (element as any).prependTo = (parent: ParentSelector): EnhancedElement<K> => {
-      const parentElement = typeof parent === 'string'
-        ? document.querySelector(parent)
-        : parent;
-      if (parentElement) {
-        parentElement.insertBefore(element, parentElement.firstChild);
-      }
-      return element as EnhancedElement<K>;
-    };
-
-    (element as any).insertAfter = (target: ParentSelector): EnhancedElement<K> => {
-      const targetElement = typeof target === 'string'
-        ? document.querySelector(target)
-        : target;
-      if (targetElement && targetElement.parentNode) {
-        targetElement.parentNode.insertBefore(element, targetElement.nextSibling);
+    // Reused nodes are moved only when their order changed
+    let reference = parent.firstChild;
+    result.forEach(node => {
+      if (node === reference) {
+        reference = reference.nextSibling;
+      } else {
+        // Enhanced elements shadow insertBefore with the builder method
+        Node.prototype.insertBefore.call(parent, node, reference);
       }
-      return element as EnhancedElement<K>;
-    };
+    });
+  }
 
-    (element as any).insertBefore = (target: ParentSelector): EnhancedElement<K> => {
-      const targetElement = typeof target === 'string'
-        ? document.querySelector(target)
-        : target;
-      if (targetElement && targetElement.parentNode) {
-        targetElement.parentNode.insertBefore(element, targetElement);
-      }
-      return element as EnhancedElement<K>;
-    };
+  /**
+   * Mark a node that patch() must insert as is instead of morphing a matching
+   * node into it, e.g. markup with listeners added by addEventListener, which
+   * patch() cannot move. Returns the node.
+   */
+  static replaceOnPatch<T extends Node>(node: T): T {
+    replacedOnPatch.add(node);
+    return node;
+  }
 
-    (element as any).remove = (): EnhancedElement<K> => {
-      if (element.parentNode) {
-        element.parentNode.removeChild(element);
+  /**
+   * Copy text, attributes, form control state, tracked listeners and children
+   * of source into target
+   */
+  private static morph(target: Node, source: Node): void {
+    if (!(target instanceof Element) || !(source instanceof Element)) {
+      if (target.nodeValue !== source.nodeValue) {
+        target.nodeValue = source.nodeValue;
       }
-      return element as EnhancedElement<K>;
-    };
-
-    (element as any).empty = (): EnhancedElement<K> => {
-      element.innerHTML = '';
-      return element as EnhancedElement<K>;
-    };
+      return;
+    }
 
-    (element as any).clone = (deep: boolean = true): EnhancedElement<K> => {
-      const cloned = element.cloneNode(deep);
-      return ElementBuilder.enhance(cloned as HTMLElementTagNameMap[K]);
-    };
+    Array.from(target.attributes).forEach(({ name }) => {
+      if (!source.hasAttribute(name)) target.removeAttribute(name);
+    });
+    Array.from(source.attributes).forEach(({ name, value }) => {
+      if (target.getAttribute(name) !== value) target.setAttribute(name, value);
+    });
 
-    return element as EnhancedElement<K>;
+    // Handlers of the new node may close over new data
+    (listeners.get(target) || []).forEach(({ event, handler, options }) =>
+      target.removeEventListener(event, handler, options));
+    const sourceListeners = listeners.get(source) || [];
+    sourceListeners.forEach(({ event, handler, options }) =>
+      target.addEventListener(event, handler, options));
+    listeners.set(target, sourceListeners);
+
+    ElementBuilder.patch(target, Array.from(source.childNodes));
+    // After the children, so that a select already has the source options
+    syncFormState(target, source);
   }
 
   /**
-   * Enhance existing element with builder methods
+   * Tagged template: html`<li class="${type}">${name}</li>`.
+   * Interpolated strings and numbers are HTML-escaped, nodes (including nested
+   * html`` results) are inserted as is, arrays are flattened, null, undefined
+   * and false render nothing. Values in quoted attributes are set with
+   * setAttribute, URL attributes must pass the same check as in sanitize().
+   * Values anywhere else (tag names, unquoted attributes, event handlers,
+   * comments, script and style) throw. Returns the element for a single root
+   * element, otherwise a fragment.
    */
-  static enhance<K extends keyof HTMLElementTagNameMap>(
-    element: HTMLElementTagNameMap[K]
-  ): EnhancedElement<K> {
-    const enhanced = element as any;
-
-    // Добавляем все методы ElementBuilder к элементу
-    enhanced.addClass = function (className: string) {
-      this.classList.add(className);
-      return this;
-    };
-
-    enhanced.removeClass = function (className: string) {
-      this.classList.remove(className);
-      return this;
-    };
-
-    enhanced.hasClass = function (className: string) {
-      return this.classList.contains(className);
-    };
-
-    enhanced.setText = function (text: string) {
-      this.textContent = text;
-      return this;
+  static html(strings: TemplateStringsArray, ...values: unknown[]): EnhancedElement | EnhancedFragment {
+    const nodes: Node[] = [];
+    const interpolate = (value: unknown): string => {
+      if (Array.isArray(value)) return value.map(interpolate).join('');
+      if (value === null || value === undefined || value === false) return '';
+      if (value instanceof Node) {
+        nodes.push(value);
+        return `<!--eb:${nodes.length - 1}-->`;
+      }
+      return escapeHtml(String(value));
     };
 
-    enhanced.setHtml = function (html: string) {
-      this.innerHTML = html;
-      return this;
-    };
+    const state: TemplateState = { context: 'text', quote: '', tag: '' };
+    let markup = '';
+    strings.forEach((part, index) => {
+      if (index > 0) {
+        if (state.context === 'text') {
+          markup += interpolate(values[index - 1]);
+        } else if (state.context === 'attribute') {
+          markup += `\uE000${index - 1}\uE001`;
+        } else {
+          throw new Error('ElementBuilder.html: values can only be interpolated into text and quoted attribute values');
+        }
+      }
+      scanTemplate(state, part);
+      markup += part;
+    });
 
-    enhanced.empty = function () {
-      this.innerHTML = '';
-      return this;
-    };
+    const template = document.createElement('template');
+    template.innerHTML = markup;
 
-    enhanced.addChild = function (...children: any[]) {
-      children.forEach(child => {
-        if (typeof child === 'string') {
-          this.appendChild(document.createTextNode(child));
+    // Attribute values are set as is: quotes in them cannot end the attribute
+    template.content.querySelectorAll('*').forEach(element => {
+      Array.from(element.attributes).forEach(({ name, value }) => {
+        if (!value.includes('\uE000')) return;
+        if (name.startsWith('on')) {
+          throw new Error(`ElementBuilder.html: values cannot be interpolated into the ${name} handler`);
+        }
+        const resolved = value.replace(ATTRIBUTE_PLACEHOLDER, (_, index) => attributeText(values[Number(index)]));
+        if (URL_ATTRIBUTES.includes(name) && !isSafeUrl(resolved)) {
+          element.removeAttribute(name);
         } else {
-          this.appendChild(child);
+          element.setAttribute(name, resolved);
         }
       });
-      return this;
-    };
-
-    enhanced.setAttr = function (name: string, value?: string) {
-      if (value !== undefined) {
-        this.setAttribute(name, value);
-      }
-      return this;
-    };
+    });
 
-    enhanced.setStyle = function (property: string, value?: string) {
-      if (value !== undefined) {
-        this.style.setProperty(property, value);
-      }
-      return this;
-    };
+    // Placeholders are replaced with the interpolated nodes
+    const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_COMMENT);
+    const placeholders: Comment[] = [];
+    while (walker.nextNode()) {
+      placeholders.push(walker.currentNode as Comment);
+    }
+    placeholders.forEach(comment => {
+      const match = /^eb:(\d+)$/.exec(comment.data);
+      if (match) comment.replaceWith(nodes[Number(match[1])]);
+    });
 
-    enhanced.setData = function (key: string, value?: string) {
-      if (value !== undefined) {
-        this.dataset[key] = value;
-      }
-      return this;
-    };
+    const content = template.content;
+    const elements = Array.from(content.childNodes).filter(node =>
+      node.nodeType !== Node.TEXT_NODE || node.textContent!.trim() !== '');
+    if (elements.length === 1 && elements[0] instanceof HTMLElement) {
+      return ElementBuilder.attachMethods(elements[0]) as EnhancedElement;
+    }
 
-    enhanced.appendTo = function (parent: any) {
-      const parentElement = typeof parent === 'string'
-        ? document.querySelector(parent)
-        : parent;
-      if (parentElement) {
-        parentElement.appendChild(this);
-      }
-      return this;
-    };
+    const fragment = ElementBuilder.createFragment();
+    fragment.appendChild(content);
+    return fragment;
+  }
 
-    return enhanced as EnhancedElement<K>;
+  /**
+   * Parse untrusted HTML into a fragment keeping only allow-listed tags and attributes.
+   * Other tags are unwrapped (their text is kept), script-like tags are dropped with
+   * their content, URL attributes accept only http(s), mailto, tel and relative links.
+   */
+  static sanitize(html: string, options: SanitizeOptions = {}): DocumentFragment {
+    const tags = new Set((options.tags || SAFE_TAGS).map(tag => tag.toLowerCase()));
+    const attributes = (options.attributes || SAFE_ATTRIBUTES).map(name => name.toLowerCase());
+
+    // Template content is inert: scripts do not run and images do not load while parsing
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    sanitizeChildren(template.content, tags, attributes);
+    return template.content;
   }
 
   /**
@@ -436,6 +657,142 @@ export default class ElementBuilder {
 
 }
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Custom properties (--name) and hyphenated names are only reachable through
+ * setProperty, camelCase names are set as style properties
+ */
+function setStyleProperty(style: CSSStyleDeclaration, property: string, value: string | number): void {
+  if (property.includes('-')) {
+    style.setProperty(property, String(value));
+  } else {
+    (style as any)[property] = value;
+  }
+}
+
+/**
+ * Whitespace and control characters are ignored by browsers inside the scheme
+ */
+function isSafeUrl(value: string): boolean {
+  return SAFE_URL.test(value.replace(/[\s\u0000-\u001f]/g, ''));
+}
+
+/**
+ * Text of a value interpolated into an attribute, nodes have no text form there
+ */
+function attributeText(value: unknown): string {
+  if (Array.isArray(value)) return value.map(attributeText).join('');
+  if (value === null || value === undefined || value === false) return '';
+  if (value instanceof Node) {
+    throw new Error('ElementBuilder.html: nodes cannot be interpolated into attribute values');
+  }
+  return String(value);
+}
+
+/**
+ * Advance the html`` parser state over a static part of the template
+ */
+function scanTemplate(state: TemplateState, part: string): void {
+  for (let i = 0; i < part.length; i++) {
+    const char = part[i];
+    switch (state.context) {
+      case 'text':
+        if (part.startsWith('<!--', i)) {
+          state.context = 'comment';
+          i += 3;
+        } else if (char === '<' && (i + 1 === part.length || /[a-z/!?]/i.test(part[i + 1]))) {
+          // A value right after "<" would become the tag name
+          state.context = 'tag';
+          state.tag = (/^<([a-z][^\s/>]*)/i.exec(part.slice(i)) || ['', ''])[1].toLowerCase();
+        }
+        break;
+      case 'tag':
+        if (char === '"' || char === "'") {
+          state.context = 'attribute';
+          state.quote = char;
+        } else if (char === '>') {
+          state.context = RAW_TEXT_TAGS.includes(state.tag) ? 'raw' : 'text';
+        }
+        break;
+      case 'attribute':
+        if (char === state.quote) state.context = 'tag';
+        break;
+      case 'comment':
+        if (part.startsWith('-->', i)) {
+          state.context = 'text';
+          i += 2;
+        }
+        break;
+      case 'raw':
+        if (part.slice(i, i + state.tag.length + 2).toLowerCase() === `</${state.tag}`) {
+          state.context = 'tag';
+          state.tag = '';
+        }
+        break;
+    }
+  }
+}
+
+function sanitizeChildren(parent: Node, tags: Set<string>, attributes: string[]): void {
+  Array.from(parent.childNodes).forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) return;
+    if (!(node instanceof Element)) {
+      node.remove();
+      return;
+    }
+
+    const tag = node.localName;
+    if (DROPPED_TAGS.includes(tag)) {
+      node.remove();
+      return;
+    }
+
+    sanitizeChildren(node, tags, attributes);
+    if (!tags.has(tag)) {
+      node.replaceWith(...Array.from(node.childNodes));
+      return;
+    }
+
+    Array.from(node.attributes).forEach(({ name, value }) => {
+      // Event handler attributes are never allowed, even by a custom list
+      const allowed = !name.startsWith('on') && attributes.some(allowedName => allowedName.endsWith('*')
+        ? name.startsWith(allowedName.slice(0, -1))
+        : name === allowedName);
+      const safeUrl = !URL_ATTRIBUTES.includes(name) || isSafeUrl(value);
+      if (!allowed || !safeUrl) node.removeAttribute(name);
+    });
+  });
+}
+
+/**
+ * Once the user edits a form control, its value and checked properties no
+ * longer follow the attributes, so they are copied separately
+ */
+function syncFormState(target: Element, source: Element): void {
+  if (target instanceof HTMLInputElement && source instanceof HTMLInputElement) {
+    if (target.checked !== source.checked) target.checked = source.checked;
+    // The value of a file input cannot be set
+    if (target.type !== 'file' && target.value !== source.value) target.value = source.value;
+  } else if (
+    (target instanceof HTMLSelectElement && source instanceof HTMLSelectElement) ||
+    (target instanceof HTMLTextAreaElement && source instanceof HTMLTextAreaElement)
+  ) {
+    if (target.value !== source.value) target.value = source.value;
+  }
+}
+
+function nodeKey(node: Node): string | null {
+  return node instanceof Element ? node.getAttribute(KEY_ATTRIBUTE) : null;
+}
+
 // Global export for browser use
 if (typeof window !== 'undefined') {
   (window as any).ElementBuilder = ElementBuilder;
@@ -0,0 +1,21 @@
+/**
+ * Тип ошибки виджета
+ */
+export type CouponsWidgetErrorType = 'network' | 'timeout' | 'aborted' | 'parse' | 'config' | 'unknown';
+
+/**
+ * Ошибка загрузки или разбора данных виджета, config - некорректные опции (атрибуты, позиции портфеля)
+ */
+export class CouponsWidgetError extends Error {
+  public readonly type: CouponsWidgetErrorType;
+  public readonly status: number | undefined;
+  public readonly details: string | undefined;
+
+  constructor(type: CouponsWidgetErrorType, message: string, status?: number, details?: string) {
+    super(message);
+    this.name = 'CouponsWidgetError';
+    this.type = type;
+    this.status = status;
+    this.details = details;
+  }
+}
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WidgetEvents } from './events';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('WidgetEvents', () => {
+  it('вызывает подписчиков и отправляет всплывающее DOM-событие', () => {
+    const events = new WidgetEvents();
+    const target = document.createElement('div');
+    const parent = document.createElement('section');
+    parent.append(target);
+    const handler = vi.fn();
+    const listener = vi.fn();
+    events.on('render', handler);
+    parent.addEventListener('coupons-widget:render', listener);
+
+    events.emit('render', { data: [] }, target);
+
+    expect(handler).toHaveBeenCalledWith({ data: [] });
+    expect((listener.mock.calls[0][0] as CustomEvent).detail).toEqual({ data: [] });
+  });
+
+  it('передает исключение подписчика в событие error', () => {
+    const events = new WidgetEvents();
+    const failure = new Error('Сбой подписчика');
+    const next = vi.fn();
+    const onError = vi.fn();
+    events.on('load', () => {
+      throw failure;
+    });
+    events.on('load', next);
+    events.on('error', onError);
+
+    events.emit('load', { data: [], source: 'RU000A107RZ1' }, null);
+
+    expect(next).toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith({ error: failure, type: 'unknown', message: 'Сбой подписчика' });
+  });
+
+  it('выбрасывает исключение подписчика error вне стека виджета', () => {
+    vi.useFakeTimers();
+    const events = new WidgetEvents();
+    const failure = new Error('Сбой обработчика ошибок');
+    events.on('error', () => {
+      throw failure;
+    });
+
+    expect(() => events.emit('error', { error: null, type: 'unknown', message: '' }, null)).not.toThrow();
+    expect(() => vi.runAllTimers()).toThrow(failure);
+  });
+});
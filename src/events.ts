@@ -0,0 +1,122 @@
+import type { CouponData } from './coupons-widget';
+import { CouponsWidgetError, CouponsWidgetErrorType } from './errors';
+import { describeError, resolveMessages } from './i18n';
+
+/**
+ * События виджета и передаваемые в них данные
+ */
+export interface CouponsWidgetEventMap {
+  load: { data: CouponData[]; source: string | null };
+  // source - ISIN позиции портфеля, загрузка которой завершилась ошибкой
+  error: { error: unknown; type: CouponsWidgetErrorType; message: string; source?: string };
+  render: { data: CouponData[] };
+  itemClick: { item: CouponData; element: HTMLElement; originalEvent: MouseEvent | KeyboardEvent };
+}
+
+export type CouponsWidgetEventName = keyof CouponsWidgetEventMap;
+
+export type CouponsWidgetEventHandler<K extends CouponsWidgetEventName> =
+  (detail: CouponsWidgetEventMap[K]) => void;
+
+/**
+ * Имена DOM-событий на контейнере виджета
+ */
+export const DOM_EVENT_NAMES: Record<CouponsWidgetEventName, string> = {
+  load: 'coupons-widget:load',
+  error: 'coupons-widget:error',
+  render: 'coupons-widget:render',
+  itemClick: 'coupons-widget:item-click',
+};
+
+/**
+ * Подписки на события одного экземпляра виджета
+ */
+export class WidgetEvents {
+  private handlers = new Map<CouponsWidgetEventName, Set<CouponsWidgetEventHandler<any>>>();
+
+  public on<K extends CouponsWidgetEventName>(event: K, handler: CouponsWidgetEventHandler<K>): void {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+  }
+
+  public off<K extends CouponsWidgetEventName>(event: K, handler?: CouponsWidgetEventHandler<K>): void {
+    if (handler) {
+      this.handlers.get(event)?.delete(handler);
+    } else {
+      this.handlers.delete(event);
+    }
+  }
+
+  /**
+   * Вызов подписчиков и отправка всплывающего CustomEvent на элементе.
+   * Ошибка подписчика не ломает виджет: она приходит в событие error,
+   * а ошибка подписчика error - в глобальный обработчик ошибок страницы.
+   */
+  public emit<K extends CouponsWidgetEventName>(
+    event: K,
+    detail: CouponsWidgetEventMap[K],
+    target: HTMLElement | null
+  ): void {
+    this.handlers.get(event)?.forEach(handler => {
+      try {
+        handler(detail);
+      } catch (error) {
+        if (event === 'error') {
+          rethrowAsync(error);
+        } else {
+          this.emit('error', {
+            error,
+            type: 'unknown',
+            message: error instanceof Error ? error.message : String(error),
+          }, target);
+        }
+      }
+    });
+
+    if (target) {
+      dispatchWidgetEvent(target, event, detail);
+    }
+  }
+
+  public clear(): void {
+    this.handlers.clear();
+  }
+}
+
+/**
+ * Всплывающее DOM-событие виджета на элементе
+ */
+export function dispatchWidgetEvent<K extends CouponsWidgetEventName>(
+  target: HTMLElement,
+  event: K,
+  detail: CouponsWidgetEventMap[K]
+): void {
+  target.dispatchEvent(new CustomEvent(DOM_EVENT_NAMES[event], {
+    bubbles: true,
+    detail,
+  }));
+}
+
+/**
+ * Событие error на элементе, для которого виджет не удалось создать (например, из-за некорректных атрибутов).
+ * Текст ошибки настроек - на языке locale из атрибутов элемента.
+ */
+export function dispatchCreateError(target: HTMLElement, error: unknown, locale: string = 'ru-RU'): void {
+  const configError = error instanceof CouponsWidgetError && error.type === 'config';
+  dispatchWidgetEvent(target, 'error', {
+    error,
+    type: error instanceof CouponsWidgetError ? error.type : 'unknown',
+    message: configError ? describeError(error, resolveMessages(locale)) : error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Ошибка вне текущего стека: попадает в window.onerror, не прерывая виджет
+ */
+function rethrowAsync(error: unknown): void {
+  setTimeout(() => {
+    throw error;
+  });
+}
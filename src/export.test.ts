@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { CouponData } from './coupons-widget';
+import { toCSV, toICS } from './export';
+
+const NOW = new Date('2025-04-15T09:30:00Z');
+
+const SCHEDULE: CouponData[] = [
+  { type: 'coupon', date: new Date(2025, 0, 15), rate: 10, amount: 50, currency: 'RUB' },
+  { type: 'coupon', date: new Date(2025, 6, 15), rate: 10, amount: 52.36, currency: 'RUB', isin: 'RU000A107RZ1', name: 'ОФЗ 26238' },
+  { type: 'offer', date: new Date(2025, 6, 15), rate: 100, amount: null, currency: 'RUB', isin: 'RU000A107RZ1', description: 'Оферта' },
+  { date: new Date(2025, 9, 1), rate: null, amount: null, currency: 'USD' },
+  { date: new Date(2025, 9, 1), rate: 5, amount: 12.5, currency: 'USD', description: 'Купон; "плавающий", 1' },
+];
+
+describe('toICS', () => {
+  it('создает событие на весь день для каждой предстоящей выплаты', () => {
+    expect(toICS(SCHEDULE.slice(0, 3), { now: NOW })).toBe([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//coupons-widget//RU',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'BEGIN:VEVENT',
+      'UID:RU000A107RZ1-coupon-20250715@coupons-widget',
+      'DTSTAMP:20250415T093000Z',
+      'DTSTART;VALUE=DATE:20250715',
+      'DTEND;VALUE=DATE:20250716',
+      'SUMMARY:Купон ОФЗ 26238',
+      // Строки длиннее 75 байт UTF-8 переносятся
+      'DESCRIPTION:Сумма 1 облигации: 52\\,36\u00a0₽\\nСтавка: 10\\',
+      ' ,00\u00a0%\\nISIN: RU000A107RZ1',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:RU000A107RZ1-offer-20250715@coupons-widget',
+      'DTSTAMP:20250415T093000Z',
+      'DTSTART;VALUE=DATE:20250715',
+      'DTEND;VALUE=DATE:20250716',
+      'SUMMARY:Оферта RU000A107RZ1',
+      'DESCRIPTION:Цена оферты: 100\\,00\u00a0%\\nISIN: RU000A107RZ1',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('нумерует события одного типа в один день', () => {
+    const uids = toICS(SCHEDULE, { now: NOW }).split('\r\n').filter(line => line.startsWith('UID:'));
+
+    expect(uids).toEqual([
+      'UID:RU000A107RZ1-coupon-20250715@coupons-widget',
+      'UID:RU000A107RZ1-offer-20250715@coupons-widget',
+      'UID:coupons-coupon-20251001@coupons-widget',
+      'UID:coupons-coupon-20251001-1@coupons-widget',
+    ]);
+  });
+
+  it('отмечает оценку неопределенного купона', () => {
+    const estimated: CouponData = { date: new Date(2025, 9, 1), rate: 5, amount: 12.5, currency: 'RUB', estimated: true };
+    // Свернутые строки разворачиваются обратно
+    const description = toICS([estimated], { now: NOW }).replace(/\r\n /g, '').split('\r\n')
+      .find(line => line.startsWith('DESCRIPTION:'));
+
+    expect(description).toBe('DESCRIPTION:Сумма 1 облигации: ≈ 12\\,50\u00a0₽ (оценка)\\nСтавка: ≈ 5\\,00\u00a0%');
+  });
+});
+
+describe('toCSV', () => {
+  it('выгружает весь график с экранированием', () => {
+    expect(toCSV(SCHEDULE)).toBe([
+      'date,type,rate,amount,currency,description,isin,name,estimated',
+      '2025-01-15,coupon,10,50,RUB,,,,false',
+      '2025-07-15,coupon,10,52.36,RUB,,RU000A107RZ1,ОФЗ 26238,false',
+      '2025-07-15,offer,100,,RUB,Оферта,RU000A107RZ1,,false',
+      '2025-10-01,coupon,,,USD,,,,false',
+      '2025-10-01,coupon,5,12.5,USD,"Купон; ""плавающий"", 1",,,false',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('отмечает оцененные ставку и сумму', () => {
+    const estimated: CouponData = { date: new Date(2025, 9, 1), rate: 5, amount: 12.5, currency: 'RUB', estimated: true };
+
+    expect(toCSV([estimated]).split('\r\n')[1]).toBe('2025-10-01,coupon,5,12.5,RUB,,,,true');
+  });
+
+  it('использует заданный разделитель', () => {
+    expect(toCSV(SCHEDULE.slice(4), { delimiter: ';' })).toBe(
+      'date;type;rate;amount;currency;description;isin;name;estimated\r\n' +
+      '2025-10-01;coupon;5;12.5;USD;"Купон; ""плавающий"", 1";;;false\r\n'
+    );
+  });
+});
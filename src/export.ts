@@ -0,0 +1,168 @@
+import type { CouponData } from './coupons-widget';
+import { exchangeToday, formatIsoDate } from './dates';
+import { CouponFormatter } from './format';
+import { WidgetMessages, resolveMessages, typeLabel } from './i18n';
+
+/**
+ * Параметры экспорта в iCalendar
+ */
+export interface IcsOptions {
+  isin?: string | null;
+  // Тексты и форматирование сумм в описании событий (по умолчанию русские)
+  messages?: WidgetMessages;
+  formatter?: CouponFormatter;
+  // Текущий момент: отбор предстоящих выплат и DTSTAMP
+  now?: Date;
+}
+
+/**
+ * Параметры экспорта в CSV
+ */
+export interface CsvOptions {
+  delimiter?: string;
+}
+
+const CSV_COLUMNS = ['date', 'type', 'rate', 'amount', 'currency', 'description', 'isin', 'name', 'estimated'];
+
+/**
+ * Календарь iCalendar (RFC 5545): событие на весь день для каждой предстоящей выплаты и оферты
+ */
+export function toICS(data: CouponData[], options: IcsOptions = {}): string {
+  const messages = options.messages || resolveMessages('ru-RU');
+  const formatter = options.formatter || new CouponFormatter('ru-RU', { ratePrecision: 2, amountPrecision: 2 });
+  const now = options.now || new Date();
+  const today = exchangeToday(now);
+  const isin = options.isin || null;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//coupons-widget//RU',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  const uids = new Map<string, number>();
+  data.filter(item => item.date >= today).forEach(item => {
+    const date = compactDate(item.date);
+    const nextDay = new Date(item.date);
+    nextDay.setDate(nextDay.getDate() + 1);
+
+    // В портфеле у каждой записи свой ISIN
+    const itemIsin = item.isin || isin;
+    const title = typeLabel(item, messages);
+    const bond = item.name || itemIsin;
+    // Оценка неопределенного купона отмечается так же, как в виджете
+    const approx = item.estimated ? '≈ ' : '';
+    const description = item.type === 'offer'
+      ? [`${messages.offerPrice} ${formatter.rate(item.rate)}`]
+      : [`${messages.amount} ${approx}${formatter.amount(item.amount, item.currency)}${item.estimated ? ` (${messages.estimate})` : ''}`];
+    if (item.type !== 'offer' && item.type !== 'maturity' && item.rate !== null) {
+      description.push(`${item.type === 'amortization' ? messages.faceShare : messages.rate} ${approx}${formatter.rate(item.rate)}`);
+    }
+    if (itemIsin) {
+      description.push(`ISIN: ${itemIsin}`);
+    }
+
+    // Выплаты одного типа в один день (например, в данных без ISIN) различаются номером
+    const uid = `${itemIsin || 'coupons'}-${item.type || 'coupon'}-${date}`;
+    const repeat = uids.get(uid) || 0;
+    uids.set(uid, repeat + 1);
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${repeat > 0 ? `${uid}-${repeat}` : uid}@coupons-widget`,
+      `DTSTAMP:${utcTimestamp(now)}`,
+      `DTSTART;VALUE=DATE:${date}`,
+      `DTEND;VALUE=DATE:${compactDate(nextDay)}`,
+      `SUMMARY:${escapeText(bond ? `${title} ${bond}` : title)}`,
+      `DESCRIPTION:${escapeText(description.join('\n'))}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Весь график в CSV: даты ГГГГ-ММ-ДД, числа с точкой, пустые значения - пустые ячейки,
+ * estimated - true для ставки и суммы, оцененных по последнему известному купону
+ */
+export function toCSV(data: CouponData[], options: CsvOptions = {}): string {
+  const delimiter = options.delimiter || ',';
+  const rows = data.map(item => [
+    formatIsoDate(item.date),
+    item.type || 'coupon',
+    item.rate === null ? '' : String(item.rate),
+    item.amount === null ? '' : String(item.amount),
+    item.currency,
+    item.description || '',
+    item.isin || '',
+    item.name || '',
+    item.estimated ? 'true' : 'false',
+  ]);
+
+  return [CSV_COLUMNS, ...rows]
+    .map(row => row.map(value => escapeCsv(value, delimiter)).join(delimiter))
+    .join('\r\n') + '\r\n';
+}
+
+function compactDate(date: Date): string {
+  return formatIsoDate(date).replace(/-/g, '');
+}
+
+function utcTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Экранирование TEXT-значений iCalendar
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Перенос строк длиннее 75 байт UTF-8 (продолжение начинается с пробела)
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let length = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    // У строк продолжения один байт занимает начальный пробел
+    const limit = parts.length === 0 ? 75 : 74;
+    if (length + size > limit) {
+      parts.push(current);
+      current = '';
+      length = 0;
+    }
+    current += char;
+    length += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0)!;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+}
+
+function escapeCsv(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { CouponData, CouponDataInput } from './coupons-widget';
+import { normalizeCouponData } from './format';
+
+describe('normalizeCouponData', () => {
+  it('разбирает строковый формат', () => {
+    expect(normalizeCouponData({ paymentDate: '15.07.2025', rate: '12,33%', amount: '30,74 ₽', disabled: true }))
+      .toEqual({ date: new Date(2025, 6, 15), rate: 12.33, amount: 30.74, currency: 'RUB', disabled: true });
+  });
+
+  it('возвращает числовую модель с датами без изменений', () => {
+    const item: CouponData = { date: new Date(2025, 6, 15), rate: 12, amount: 30, currency: 'RUB' };
+
+    expect(normalizeCouponData(item)).toBe(item);
+  });
+
+  it('приводит даты числовой модели из JSON к Date', () => {
+    const item = JSON.parse('{"date":"2025-07-15","startDate":"2025-04-15","rate":12,"amount":30,"currency":"RUB"}');
+
+    const normalized = normalizeCouponData(item as CouponDataInput);
+
+    expect(normalized.date).toEqual(new Date(2025, 6, 15));
+    expect(normalized.startDate).toEqual(new Date(2025, 3, 15));
+    expect(normalized.rate).toBe(12);
+  });
+
+  it('восстанавливает день сериализованного Date', () => {
+    const item: CouponData = { date: new Date(2025, 6, 15), rate: 12, amount: 30, currency: 'RUB' };
+
+    const normalized = normalizeCouponData(JSON.parse(JSON.stringify(item)));
+
+    expect(normalized.date).toEqual(new Date(2025, 6, 15));
+  });
+});
+
+describe('числа строкового формата', () => {
+  const amountOf = (amount: string) =>
+    normalizeCouponData({ paymentDate: '15.07.2025', rate: '-', amount }).amount;
+
+  it('понимают разделители тысяч', () => {
+    expect(amountOf('1,234.56 $')).toBe(1234.56);
+    expect(amountOf('1.234,56 €')).toBe(1234.56);
+    expect(amountOf('1 234,56 ₽')).toBe(1234.56);
+    expect(amountOf('1\u202f234,56\u00a0₽')).toBe(1234.56);
+    expect(amountOf('1,234,567 ₽')).toBe(1234567);
+  });
+
+  it('считают единственную запятую или точку десятичной', () => {
+    expect(amountOf('30,74 ₽')).toBe(30.74);
+    expect(amountOf('30.74 ₽')).toBe(30.74);
+    expect(amountOf('1000 ₽')).toBe(1000);
+  });
+
+  it('возвращают null без числа', () => {
+    expect(amountOf('-')).toBeNull();
+    expect(amountOf('')).toBeNull();
+  });
+});
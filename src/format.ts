@@ -0,0 +1,190 @@
+import type { CouponData, CouponDataInput, LegacyCouponData } from './coupons-widget';
+import { parseIsoDate, startOfDay } from './dates';
+
+/**
+ * Настройки форматирования чисел
+ */
+export interface FormatOptions {
+  ratePrecision: number;
+  amountPrecision: number;
+}
+
+/**
+ * Форматирование дат, ставок и сумм через Intl
+ */
+export class CouponFormatter {
+  private dateFormat: Intl.DateTimeFormat;
+  private dayFormat: Intl.DateTimeFormat;
+  private monthFormat: Intl.DateTimeFormat;
+  private yearFormat: Intl.DateTimeFormat;
+  private rateFormat: Intl.NumberFormat;
+  private amountFormats = new Map<string, Intl.NumberFormat>();
+
+  constructor(private locale: string, private options: FormatOptions) {
+    this.dateFormat = new Intl.DateTimeFormat(locale, {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+    });
+    this.dayFormat = new Intl.DateTimeFormat(locale, { day: 'numeric' });
+    this.monthFormat = new Intl.DateTimeFormat(locale, { month: 'long' });
+    this.yearFormat = new Intl.DateTimeFormat(locale, { year: 'numeric' });
+    this.rateFormat = new Intl.NumberFormat(locale, {
+      style: 'percent',
+      minimumFractionDigits: options.ratePrecision,
+      maximumFractionDigits: options.ratePrecision,
+    });
+  }
+
+  public date(date: Date): string {
+    return this.dateFormat.format(date);
+  }
+
+  /**
+   * Части даты для календарного вида
+   */
+  public day(date: Date): string {
+    return this.dayFormat.format(date);
+  }
+
+  public month(date: Date): string {
+    return this.monthFormat.format(date);
+  }
+
+  public year(date: Date): string {
+    return this.yearFormat.format(date);
+  }
+
+  /**
+   * Ставка в процентах годовых (12.5 → "12,50 %")
+   */
+  public rate(rate: number | null): string {
+    return rate === null ? '-' : this.rateFormat.format(rate / 100);
+  }
+
+  public amount(amount: number | null, currency: string): string {
+    return amount === null ? '-' : this.amountFormat(currency).format(amount);
+  }
+
+  private amountFormat(currency: string): Intl.NumberFormat {
+    let format = this.amountFormats.get(currency);
+    if (!format) {
+      const digits = {
+        minimumFractionDigits: this.options.amountPrecision,
+        maximumFractionDigits: this.options.amountPrecision,
+      };
+      try {
+        format = new Intl.NumberFormat(this.locale, { style: 'currency', currency, ...digits });
+      } catch {
+        // Неизвестный код валюты - выводим число без символа
+        format = new Intl.NumberFormat(this.locale, digits);
+      }
+      this.amountFormats.set(currency, format);
+    }
+    return format;
+  }
+}
+
+/**
+ * Коды валют MOEX, отличающиеся от ISO 4217
+ */
+const MOEX_CURRENCIES: Record<string, string> = {
+  SUR: 'RUB',
+  RUR: 'RUB',
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '₽': 'RUB',
+  '$': 'USD',
+  '€': 'EUR',
+  '¥': 'CNY',
+};
+
+/**
+ * Код валюты ISO 4217 по faceunit MOEX
+ */
+export function currencyFromFaceUnit(faceunit: string | null): string {
+  if (!faceunit) return 'RUB';
+  return MOEX_CURRENCIES[faceunit] || faceunit;
+}
+
+/**
+ * Приведение данных к числовой модели, в том числе из строкового формата
+ */
+export function normalizeCouponData(item: CouponDataInput): CouponData {
+  if (!isLegacy(item)) {
+    // Из JSON (JsonUrlProvider, data-data) даты числовой модели приходят строками
+    const { date, startDate } = item as { date: Date | string; startDate?: Date | string };
+    if (typeof date !== 'string' && typeof startDate !== 'string') {
+      return item;
+    }
+    return {
+      ...item,
+      date: parseDateValue(date),
+      ...(startDate ? { startDate: parseDateValue(startDate) } : {}),
+    };
+  }
+
+  const { paymentDate, rate, amount, startDate, faceValue, ...rest } = item;
+  return {
+    ...rest,
+    date: parseLegacyDate(paymentDate),
+    rate: parseLegacyNumber(rate),
+    amount: parseLegacyNumber(amount),
+    currency: parseLegacyCurrency(amount),
+    ...(startDate ? { startDate: parseLegacyDate(startDate) } : {}),
+    ...(faceValue ? { faceValue: parseLegacyNumber(faceValue) } : {}),
+  };
+}
+
+function isLegacy(item: CouponDataInput): item is LegacyCouponData {
+  return typeof (item as LegacyCouponData).paymentDate === 'string';
+}
+
+/**
+ * ДД.ММ.ГГГГ или ГГГГ-ММ-ДД
+ */
+function parseLegacyDate(value: string): Date {
+  const match = /^(\d{2})\.(\d{2})\.(\d{4})$/.exec(value.trim());
+  if (match) {
+    return new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1]));
+  }
+  return parseIsoDate(value);
+}
+
+/**
+ * Дата числовой модели: ГГГГ-ММ-ДД - календарная дата, строка со временем - сериализованный Date
+ */
+function parseDateValue(value: Date | string): Date {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  return /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? parseIsoDate(value) : startOfDay(new Date(value));
+}
+
+/**
+ * "12.33%", "30,74 ₽", "1 234,56 ₽", "1,234.56 $", "-" → число или null.
+ * Десятичный разделитель - последняя точка или запятая, если этот знак в числе один;
+ * остальные точки и запятые разделяют тысячи.
+ */
+function parseLegacyNumber(value: string): number | null {
+  const compact = value.replace(/\s/g, '');
+  const separators: string[] = compact.match(/[.,]/g) || [];
+  const last = separators[separators.length - 1];
+  const decimalIndex = last && separators.indexOf(last) === separators.length - 1
+    ? compact.lastIndexOf(last)
+    : -1;
+
+  const number = parseFloat(compact.replace(/[.,]/g, (_separator, offset: number) =>
+    offset === decimalIndex ? '.' : ''));
+  return Number.isFinite(number) ? number : null;
+}
+
+function parseLegacyCurrency(value: string): string {
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(symbol => value.includes(symbol));
+  if (symbol) {
+    return CURRENCY_SYMBOLS[symbol];
+  }
+  const code = /[A-Z]{3}/.exec(value);
+  return code ? code[0] : 'RUB';
+}
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchJson } from './http';
+
+/**
+ * fetch с заданной последовательностью ответов (статусов)
+ */
+function stubResponses(...statuses: number[]) {
+  const fetch = vi.fn(async () => {
+    const status = statuses.shift() ?? 200;
+    return new Response(JSON.stringify({ status }), { status });
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+/**
+ * fetch, который отвечает только отменой через signal
+ */
+function stubHangingFetch() {
+  const fetch = vi.fn((_input: RequestInfo | URL, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('fetchJson', () => {
+  it('повторяет ответы 5xx с экспоненциальной задержкой', async () => {
+    vi.useFakeTimers();
+    const fetch = stubResponses(503, 502, 200);
+
+    const result = fetchJson('/api', { retries: 2, retryDelay: 100 });
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toEqual({ status: 200 });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('не повторяет ответ 4xx', async () => {
+    const fetch = stubResponses(404);
+
+    await expect(fetchJson('/api', { retries: 2, retryDelay: 0 })).rejects.toMatchObject({ type: 'network', status: 404 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('отклоняет зависший запрос ошибкой timeout после всех попыток', async () => {
+    vi.useFakeTimers();
+    const fetch = stubHangingFetch();
+
+    const result = fetchJson('/api', { timeout: 1000, retries: 1, retryDelay: 100 });
+    const assertion = expect(result).rejects.toMatchObject({ type: 'timeout' });
+    await vi.advanceTimersByTimeAsync(1000 + 100 + 1000);
+
+    await assertion;
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('отменяет запрос и ожидание повтора по signal без повторов', async () => {
+    vi.useFakeTimers();
+    const fetch = stubResponses(503, 200);
+    const controller = new AbortController();
+
+    const result = fetchJson('/api', { signal: controller.signal, retries: 2, retryDelay: 100 });
+    const assertion = expect(result).rejects.toMatchObject({ type: 'aborted' });
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await assertion;
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,139 @@
+import { CouponsWidgetError } from './errors';
+
+/**
+ * Параметры HTTP-запроса провайдера
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+  // Текущий момент для статусов записей (по умолчанию системное время)
+  now?: Date;
+}
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 500;
+
+/**
+ * Загрузка JSON с таймаутом, отменой и повторами с экспоненциальной задержкой.
+ * Повторяются только таймауты, сетевые сбои и ответы 5xx/429.
+ */
+export async function fetchJson(
+  url: string,
+  options: RequestOptions = {},
+  errorMessage: string = 'Ошибка загрузки данных'
+): Promise<unknown> {
+  const {
+    signal,
+    timeout = DEFAULT_TIMEOUT,
+    retries = DEFAULT_RETRIES,
+    retryDelay = DEFAULT_RETRY_DELAY,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(url, timeout, errorMessage, signal);
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) {
+        throw error;
+      }
+      await delay(retryDelay * 2 ** attempt, signal);
+    }
+  }
+}
+
+/**
+ * Ошибка отмены запроса
+ */
+export function abortedError(): CouponsWidgetError {
+  return new CouponsWidgetError('aborted', 'Запрос отменен');
+}
+
+/**
+ * Одна попытка запроса
+ */
+async function fetchOnce(url: string, timeout: number, errorMessage: string, signal?: AbortSignal): Promise<unknown> {
+  if (signal?.aborted) {
+    throw abortedError();
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+
+    if (!response.ok) {
+      throw new CouponsWidgetError('network', errorMessage, response.status);
+    }
+
+    return await readJson(response);
+  } catch (error) {
+    if (signal?.aborted) {
+      throw abortedError();
+    }
+    if (timedOut) {
+      throw new CouponsWidgetError('timeout', 'Превышено время ожидания ответа');
+    }
+    if (error instanceof CouponsWidgetError) {
+      throw error;
+    }
+    throw new CouponsWidgetError('network', errorMessage);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Чтение JSON с ошибкой разбора вместо SyntaxError
+ */
+async function readJson(response: Response): Promise<unknown> {
+  try {
+    return await response.json();
+  } catch (error) {
+    // Отмена во время чтения тела обрабатывается выше
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw error;
+    }
+    throw new CouponsWidgetError('parse', 'Ответ сервера не является корректным JSON');
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof CouponsWidgetError)) {
+    return false;
+  }
+  if (error.type === 'timeout') {
+    return true;
+  }
+  return error.type === 'network' &&
+    (error.status === undefined || error.status >= 500 || error.status === 429);
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortedError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
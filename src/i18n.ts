@@ -0,0 +1,219 @@
+import type { CouponData } from './coupons-widget';
+import type { CouponsWidgetError } from './errors';
+
+/**
+ * Все тексты виджета
+ */
+export interface WidgetMessages {
+  empty: string;
+  loading: string;
+  errorPrefix: string;
+  paymentDate: string;
+  rate: string;
+  amount: string;
+  amortization: string;
+  faceShare: string;
+  maturity: string;
+  maturityDate: string;
+  offer: string;
+  offerDate: string;
+  offerPrice: string;
+  showAll: string;
+  collapse: string;
+  quantity: string;
+  incomeTax: string;
+  incomeNextYear: string;
+  incomeUntilMaturity: string;
+  price: string;
+  accruedInterest: string;
+  currentYield: string;
+  yieldToMaturity: string;
+  yieldToOffer: string;
+  chartCoupons: string;
+  chartPrincipal: string;
+  coupon: string;
+  columnDate: string;
+  columnType: string;
+  columnBond: string;
+  monthTotal: string;
+  columnRate: string;
+  columnAmount: string;
+  viewLabel: string;
+  viewList: string;
+  viewTable: string;
+  viewCalendar: string;
+  viewChart: string;
+  exportIcs: string;
+  exportCsv: string;
+  payingToday: string;
+  rateNotSet: string;
+  estimate: string;
+  pastPayment: string;
+  loaded: string;
+  networkError: string;
+  timeoutError: string;
+  parseError: string;
+  configError: string;
+  unknownError: string;
+}
+
+/**
+ * Встроенный языковой пакет
+ */
+export type LocalePack = 'ru' | 'en';
+
+const ru: WidgetMessages = {
+  empty: 'Данных нет',
+  loading: 'Загрузка данных',
+  errorPrefix: 'Ошибка',
+  paymentDate: 'Дата выплаты:',
+  rate: 'Ставка:',
+  amount: 'Сумма 1 облигации:',
+  amortization: 'Амортизация',
+  faceShare: 'Доля номинала:',
+  maturity: 'Погашение',
+  maturityDate: 'Дата погашения:',
+  offer: 'Оферта',
+  offerDate: 'Дата оферты:',
+  offerPrice: 'Цена оферты:',
+  showAll: 'Показать все ({count})',
+  collapse: 'Свернуть',
+  quantity: 'Количество облигаций:',
+  incomeTax: 'Учитывать НДФЛ 13%',
+  incomeNextYear: 'Доход за 12 месяцев:',
+  incomeUntilMaturity: 'Доход до погашения:',
+  price: 'Цена:',
+  accruedInterest: 'НКД:',
+  currentYield: 'Текущая доходность:',
+  yieldToMaturity: 'Доходность к погашению:',
+  yieldToOffer: 'Доходность к оферте {date}:',
+  chartCoupons: 'Купоны',
+  chartPrincipal: 'Погашение номинала',
+  coupon: 'Купон',
+  columnDate: 'Дата',
+  columnType: 'Тип',
+  columnBond: 'Облигация',
+  monthTotal: 'Итого за {month}:',
+  columnRate: 'Ставка',
+  columnAmount: 'Сумма',
+  viewLabel: 'Вид графика',
+  viewList: 'Список',
+  viewTable: 'Таблица',
+  viewCalendar: 'Календарь',
+  viewChart: 'Диаграмма',
+  exportIcs: 'В календарь (.ics)',
+  exportCsv: 'Скачать CSV',
+  payingToday: 'Выплата сегодня',
+  rateNotSet: 'ставка не определена',
+  estimate: 'оценка',
+  pastPayment: 'Прошедшая выплата',
+  loaded: 'Загружено записей графика: {count}',
+  networkError: 'Ошибка загрузки данных',
+  timeoutError: 'Превышено время ожидания ответа',
+  parseError: 'Некорректный ответ сервера',
+  configError: 'Некорректные настройки виджета',
+  unknownError: 'Неизвестная ошибка',
+};
+
+const en: WidgetMessages = {
+  empty: 'No data',
+  loading: 'Loading data',
+  errorPrefix: 'Error',
+  paymentDate: 'Payment date:',
+  rate: 'Rate:',
+  amount: 'Amount per bond:',
+  amortization: 'Amortization',
+  faceShare: 'Share of face value:',
+  maturity: 'Maturity',
+  maturityDate: 'Maturity date:',
+  offer: 'Offer',
+  offerDate: 'Offer date:',
+  offerPrice: 'Offer price:',
+  showAll: 'Show all ({count})',
+  collapse: 'Collapse',
+  quantity: 'Number of bonds:',
+  incomeTax: 'Deduct 13% income tax',
+  incomeNextYear: 'Income over 12 months:',
+  incomeUntilMaturity: 'Income until maturity:',
+  price: 'Price:',
+  accruedInterest: 'Accrued interest:',
+  currentYield: 'Current yield:',
+  yieldToMaturity: 'Yield to maturity:',
+  yieldToOffer: 'Yield to offer {date}:',
+  chartCoupons: 'Coupons',
+  chartPrincipal: 'Principal repayments',
+  coupon: 'Coupon',
+  columnDate: 'Date',
+  columnType: 'Type',
+  columnBond: 'Bond',
+  monthTotal: 'Total for {month}:',
+  columnRate: 'Rate',
+  columnAmount: 'Amount',
+  viewLabel: 'Schedule view',
+  viewList: 'List',
+  viewTable: 'Table',
+  viewCalendar: 'Calendar',
+  viewChart: 'Chart',
+  exportIcs: 'Add to calendar (.ics)',
+  exportCsv: 'Download CSV',
+  payingToday: 'Paying today',
+  rateNotSet: 'rate not set yet',
+  estimate: 'estimate',
+  pastPayment: 'Past payment',
+  loaded: 'Schedule entries loaded: {count}',
+  networkError: 'Failed to load data',
+  timeoutError: 'The server took too long to respond',
+  parseError: 'Invalid server response',
+  configError: 'Invalid widget configuration',
+  unknownError: 'Unknown error',
+};
+
+const PACKS: Record<LocalePack, WidgetMessages> = { ru, en };
+
+/**
+ * Языковой пакет по локали ('en-US' → 'en'), по умолчанию русский
+ */
+export function resolveLocalePack(locale: string): LocalePack {
+  const language = locale.toLowerCase().split(/[-_]/)[0];
+  return language in PACKS ? language as LocalePack : 'ru';
+}
+
+/**
+ * Тексты для локали с пользовательскими переопределениями
+ */
+export function resolveMessages(locale: string, overrides: Partial<WidgetMessages> = {}): WidgetMessages {
+  return { ...PACKS[resolveLocalePack(locale)], ...overrides };
+}
+
+/**
+ * Название типа записи графика (для оферты - ее вид из данных, если есть)
+ */
+export function typeLabel(item: CouponData, messages: WidgetMessages): string {
+  switch (item.type) {
+    case 'amortization':
+      return messages.amortization;
+    case 'maturity':
+      return messages.maturity;
+    case 'offer':
+      return item.description || messages.offer;
+    default:
+      return messages.coupon;
+  }
+}
+
+/**
+ * Подстановка параметров вида {name} в текст
+ */
+export function formatMessage(template: string, params: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/**
+ * Текст ошибки разбора или настроек на языке виджета; в скобках - поле ответа или атрибут
+ */
+export function describeError(error: CouponsWidgetError, messages: WidgetMessages): string {
+  const message = error.type === 'config' ? messages.configError : messages.parseError;
+  return error.details ? `${message} (${error.details})` : message;
+}
@@ -8,9 +8,63 @@ export default CouponsWidget;
 // Экспорты для модульного использования
 export { default as CouponsWidget } from './coupons-widget';
 export { default as ElementBuilder } from './element-builder';
+export { CouponsWidgetElement, defineCouponsWidgetElement } from './coupons-widget-element';
+export { MoexProvider, JsonUrlProvider, FunctionProvider } from './providers';
+export { CouponsWidgetError } from './errors';
+export { CouponFormatter } from './format';
+export { calculateIncome, INCOME_TAX_RATE } from './calculator';
+export { calculateYield, accruedInterest, effectiveYield } from './yield';
+export { parseBondization, parseMarketData } from './moex-parser';
+export { DEFAULT_STYLES } from './styles';
+export { createChart } from './chart';
+export { toICS, toCSV } from './export';
+export { mergeSchedules, monthlyTotals } from './portfolio';
+export { getItemStatus, withStatuses, findCurrent, estimateUnannounced } from './status';
+export { exchangeToday, parseIsoDate, EXCHANGE_TIME_ZONE } from './dates';
 
 // Экспорт типов
-export type { CouponsWidgetOptions, CouponData } from './coupons-widget';
+export type {
+  CouponsWidgetOptions,
+  CouponData,
+  CouponDataInput,
+  LegacyCouponData,
+  ScheduleEntryType,
+  WidgetView
+} from './coupons-widget';
+export type { CouponsProvider, CouponsLoader, CouponsMapper, ProviderOption } from './providers';
+export type { RequestOptions } from './http';
+export type { FormatOptions } from './format';
+export type { IncomeOptions, IncomeTotals } from './calculator';
+export type { YieldMetrics, CashFlow } from './yield';
+export type { ChartContext } from './chart';
+export type { IcsOptions, CsvOptions } from './export';
+export type { TableColumn, TableSort, SortDirection } from './table';
+export type { PortfolioPosition, PortfolioEntry, PositionSchedule, MonthlyTotal } from './portfolio';
+export type { CouponStatus } from './status';
+export type { Clock } from './dates';
+export type { WidgetMessages, LocalePack } from './i18n';
+export type { WidgetTheme } from './styles';
+export type {
+  CouponsWidgetRenderers,
+  RenderContext,
+  ItemRenderContext,
+  RenderResult
+} from './renderers';
+export type {
+  CouponsWidgetEventMap,
+  CouponsWidgetEventName,
+  CouponsWidgetEventHandler
+} from './events';
+export type { CouponsWidgetErrorType } from './errors';
+export type {
+  MoexCouponRow,
+  MoexAmortizationRow,
+  MoexOfferRow,
+  MoexBondization,
+  MoexSecurityRow,
+  MoexMarketdataRow,
+  MoexMarketData
+} from './moex-parser';
 export type {
   ChildElement,
   CSSClassValue,
@@ -19,6 +73,10 @@ export type {
   DatasetObject,
   ParentSelector,
   EventOptions,
+  SanitizeOptions,
+  HtmlOptions,
+  EnhancedMethods,
   EnhancedElement,
+  EnhancedSvgElement,
   EnhancedFragment
 } from './element-builder';
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { CouponsWidgetError } from './errors';
+import { parseBondization, parseMarketData } from './moex-parser';
+import columnsFixture from './__fixtures__/bondization-columns.json';
+import extendedFixture from './__fixtures__/bondization-extended.json';
+import marketdataFixture from './__fixtures__/marketdata.json';
+
+/**
+ * Ошибка разбора, выброшенная функцией
+ */
+function parseErrorOf(parse: () => unknown): CouponsWidgetError {
+  try {
+    parse();
+  } catch (error) {
+    expect(error).toBeInstanceOf(CouponsWidgetError);
+    return error as CouponsWidgetError;
+  }
+  throw new Error('Ожидалась ошибка разбора');
+}
+
+describe('parseBondization', () => {
+  it('разбирает ответ iss.json=extended', () => {
+    const { coupons, amortizations, offers } = parseBondization(extendedFixture);
+
+    expect(coupons).toHaveLength(6);
+    expect(coupons[0]).toEqual({
+      isin: 'RU000A107RZ1',
+      name: 'Облигации 001Р-01',
+      coupondate: '2024-09-12',
+      recorddate: '2024-09-11',
+      startdate: '2024-06-13',
+      initialfacevalue: 1000,
+      facevalue: 1000,
+      value: 24.93,
+      valueprc: 10,
+      value_rub: 24.93,
+      faceunit: 'SUR',
+    });
+    expect(amortizations.map(row => [row.amortdate, row.value])).toEqual([
+      ['2025-03-13', 500],
+      ['2025-12-11', 500],
+    ]);
+    expect(offers).toHaveLength(1);
+    expect(offers[0]).toMatchObject({ offerdate: '2025-06-12', price: 100, offertype: 'Оферта по выбору держателя' });
+  });
+
+  it('приводит пустые значения и дату 0000-00-00 к null', () => {
+    const unannounced = parseBondization(extendedFixture).coupons[4];
+
+    expect(unannounced.recorddate).toBeNull();
+    expect(unannounced.value).toBeNull();
+    expect(unannounced.valueprc).toBeNull();
+  });
+
+  it('разбирает ответ в формате columns/data без запрошенных оферт', () => {
+    const { coupons, amortizations, offers } = parseBondization(columnsFixture);
+
+    expect(coupons.map(row => [row.coupondate, row.value, row.faceunit, row.value_rub])).toEqual([
+      ['2025-04-03', 22.5, 'USD', 1823.4],
+      ['2025-10-03', 22.5, 'USD', null],
+    ]);
+    expect(amortizations).toHaveLength(1);
+    expect(amortizations[0].data_source).toBe('maturity');
+    expect(offers).toEqual([]);
+  });
+
+  it('требует блок coupons', () => {
+    const error = parseErrorOf(() => parseBondization([{ charsetinfo: { name: 'utf-8' } }, { offers: [] }]));
+
+    expect(error.type).toBe('parse');
+    expect(error.details).toBe('coupons');
+  });
+
+  it('указывает путь к полю с неверным типом', () => {
+    const json = structuredClone(extendedFixture) as any;
+    json[1].coupons[2].value = '24,93';
+
+    const error = parseErrorOf(() => parseBondization(json));
+
+    expect(error.details).toBe('coupons[2].value');
+    expect(error.message).toContain('ожидается число');
+  });
+
+  it('отклоняет дату не в формате ГГГГ-ММ-ДД', () => {
+    const json = structuredClone(extendedFixture) as any;
+    json[1].amortizations[0].amortdate = '13.03.2025';
+
+    expect(parseErrorOf(() => parseBondization(json)).details).toBe('amortizations[0].amortdate');
+  });
+
+  it('отклоняет columns/data без columns', () => {
+    const error = parseErrorOf(() => parseBondization({ coupons: { data: [] } }));
+
+    expect(error.details).toBe('coupons.columns');
+  });
+
+  it('отклоняет ответ неизвестного формата', () => {
+    expect(parseErrorOf(() => parseBondization('<html>')).details).toBe('root');
+  });
+});
+
+describe('parseMarketData', () => {
+  it('разбирает цены по режимам торгов', () => {
+    expect(parseMarketData(marketdataFixture)).toEqual({
+      securities: [{ BOARDID: 'TQCB', PREVPRICE: 99.75 }],
+      marketdata: [{ BOARDID: 'TQCB', LAST: null }],
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import { CouponsWidgetError } from './errors';
+
+/**
+ * Строка купона из ответа MOEX ISS bondization
+ */
+export interface MoexCouponRow {
+  isin: string;
+  name: string | null;
+  coupondate: string;
+  recorddate: string | null;
+  startdate: string | null;
+  initialfacevalue: number | null;
+  facevalue: number | null;
+  value: number | null;
+  valueprc: number | null;
+  value_rub: number | null;
+  faceunit: string | null;
+}
+
+/**
+ * Строка амортизации (в том числе погашения) из ответа MOEX ISS bondization
+ */
+export interface MoexAmortizationRow {
+  isin: string;
+  name: string | null;
+  amortdate: string;
+  facevalue: number | null;
+  initialfacevalue: number | null;
+  faceunit: string | null;
+  valueprc: number | null;
+  value: number | null;
+  value_rub: number | null;
+  data_source: string | null;
+}
+
+/**
+ * Строка оферты из ответа MOEX ISS bondization
+ */
+export interface MoexOfferRow {
+  isin: string;
+  name: string | null;
+  offerdate: string;
+  offerdatestart: string | null;
+  offerdateend: string | null;
+  facevalue: number | null;
+  faceunit: string | null;
+  price: number | null;
+  value: number | null;
+  offertype: string | null;
+}
+
+/**
+ * Разобранный ответ MOEX ISS bondization
+ */
+export interface MoexBondization {
+  coupons: MoexCouponRow[];
+  amortizations: MoexAmortizationRow[];
+  offers: MoexOfferRow[];
+}
+
+/**
+ * Строка режима торгов из блока securities (ISS engines/stock/markets/bonds)
+ */
+export interface MoexSecurityRow {
+  BOARDID: string;
+  PREVPRICE: number | null;
+}
+
+/**
+ * Строка рыночных данных из блока marketdata
+ */
+export interface MoexMarketdataRow {
+  BOARDID: string;
+  LAST: number | null;
+}
+
+/**
+ * Разобранный ответ ISS с ценами облигации по режимам торгов
+ */
+export interface MoexMarketData {
+  securities: MoexSecurityRow[];
+  marketdata: MoexMarketdataRow[];
+}
+
+type FieldKind = 'string' | 'date' | 'number';
+
+interface FieldSpec {
+  kind: FieldKind;
+  nullable?: boolean;
+}
+
+type RowSchema<T> = { [K in keyof T]-?: FieldSpec };
+
+const COUPON_SCHEMA: RowSchema<MoexCouponRow> = {
+  isin: { kind: 'string' },
+  name: { kind: 'string', nullable: true },
+  coupondate: { kind: 'date' },
+  recorddate: { kind: 'date', nullable: true },
+  startdate: { kind: 'date', nullable: true },
+  initialfacevalue: { kind: 'number', nullable: true },
+  facevalue: { kind: 'number', nullable: true },
+  value: { kind: 'number', nullable: true },
+  valueprc: { kind: 'number', nullable: true },
+  value_rub: { kind: 'number', nullable: true },
+  faceunit: { kind: 'string', nullable: true },
+};
+
+const AMORTIZATION_SCHEMA: RowSchema<MoexAmortizationRow> = {
+  isin: { kind: 'string' },
+  name: { kind: 'string', nullable: true },
+  amortdate: { kind: 'date' },
+  facevalue: { kind: 'number', nullable: true },
+  initialfacevalue: { kind: 'number', nullable: true },
+  faceunit: { kind: 'string', nullable: true },
+  valueprc: { kind: 'number', nullable: true },
+  value: { kind: 'number', nullable: true },
+  value_rub: { kind: 'number', nullable: true },
+  data_source: { kind: 'string', nullable: true },
+};
+
+const OFFER_SCHEMA: RowSchema<MoexOfferRow> = {
+  isin: { kind: 'string' },
+  name: { kind: 'string', nullable: true },
+  offerdate: { kind: 'date' },
+  offerdatestart: { kind: 'date', nullable: true },
+  offerdateend: { kind: 'date', nullable: true },
+  facevalue: { kind: 'number', nullable: true },
+  faceunit: { kind: 'string', nullable: true },
+  price: { kind: 'number', nullable: true },
+  value: { kind: 'number', nullable: true },
+  offertype: { kind: 'string', nullable: true },
+};
+
+const SECURITY_SCHEMA: RowSchema<MoexSecurityRow> = {
+  BOARDID: { kind: 'string' },
+  PREVPRICE: { kind: 'number', nullable: true },
+};
+
+const MARKETDATA_SCHEMA: RowSchema<MoexMarketdataRow> = {
+  BOARDID: { kind: 'string' },
+  LAST: { kind: 'number', nullable: true },
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Разбор ответа bondization в форматах `iss.json=extended` и columns/data.
+ * Блок coupons обязателен, amortizations и offers - если были запрошены.
+ */
+export function parseBondization(json: unknown): MoexBondization {
+  return {
+    coupons: parseRows('coupons', extractBlock(json, 'coupons', true), COUPON_SCHEMA),
+    amortizations: parseRows('amortizations', extractBlock(json, 'amortizations', false), AMORTIZATION_SCHEMA),
+    offers: parseRows('offers', extractBlock(json, 'offers', false), OFFER_SCHEMA),
+  };
+}
+
+/**
+ * Разбор ответа securities/marketdata с ценами облигации
+ */
+export function parseMarketData(json: unknown): MoexMarketData {
+  return {
+    securities: parseRows('securities', extractBlock(json, 'securities', true), SECURITY_SCHEMA),
+    marketdata: parseRows('marketdata', extractBlock(json, 'marketdata', false), MARKETDATA_SCHEMA),
+  };
+}
+
+/**
+ * Извлечение блока в виде массива объектов из любого формата ISS
+ */
+function extractBlock(json: unknown, block: string, required: boolean): Record<string, unknown>[] {
+  // extended: [{ charsetinfo }, { coupons: [{...}, ...] }]
+  if (Array.isArray(json)) {
+    const section = json.find(part => isObject(part) && block in part);
+    if (!section) {
+      if (!required) return [];
+      throw parseError(block, `отсутствует блок ${block}`);
+    }
+
+    const rows = section[block];
+    if (!Array.isArray(rows) || !rows.every(isObject)) {
+      throw parseError(block, `блок ${block} должен быть массивом объектов`);
+    }
+    return rows;
+  }
+
+  // columns/data: { coupons: { columns: [...], data: [[...], ...] } }
+  if (isObject(json)) {
+    const section = json[block];
+    if (section === undefined && !required) {
+      return [];
+    }
+    if (!isObject(section)) {
+      throw parseError(block, `отсутствует блок ${block}`);
+    }
+
+    const { columns, data } = section;
+    if (!Array.isArray(columns) || !columns.every(column => typeof column === 'string')) {
+      throw parseError(`${block}.columns`, `блок ${block} не содержит columns`);
+    }
+    if (!Array.isArray(data) || !data.every(Array.isArray)) {
+      throw parseError(`${block}.data`, `блок ${block} не содержит data`);
+    }
+
+    return data.map(values => {
+      const row: Record<string, unknown> = {};
+      columns.forEach((column, index) => {
+        row[column] = values[index];
+      });
+      return row;
+    });
+  }
+
+  throw parseError('root', 'неизвестный формат ответа');
+}
+
+/**
+ * Проверка и приведение строк по схеме
+ */
+function parseRows<T>(block: string, rows: Record<string, unknown>[], schema: RowSchema<T>): T[] {
+  return rows.map((row, index) => {
+    const result = {} as Record<string, unknown>;
+
+    (Object.keys(schema) as (keyof T & string)[]).forEach(field => {
+      const spec = schema[field];
+      const value = normalizeValue(row[field], spec.kind);
+      const path = `${block}[${index}].${field}`;
+
+      if (value === null) {
+        if (!spec.nullable) {
+          throw parseError(path, `${path}: отсутствует значение`);
+        }
+      } else if (!isValidValue(value, spec.kind)) {
+        throw parseError(path, `${path}: ожидается ${kindName(spec.kind)}`);
+      }
+
+      result[field] = value;
+    });
+
+    return result as T;
+  });
+}
+
+/**
+ * Приведение пустых значений ISS к null
+ */
+function normalizeValue(value: unknown, kind: FieldKind): unknown {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  // ISS обозначает неизвестную дату как 0000-00-00
+  if (kind === 'date' && value === '0000-00-00') {
+    return null;
+  }
+  return value;
+}
+
+function isValidValue(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+    default:
+      return typeof value === 'string';
+  }
+}
+
+function kindName(kind: FieldKind): string {
+  switch (kind) {
+    case 'number':
+      return 'число';
+    case 'date':
+      return 'дата в формате ГГГГ-ММ-ДД';
+    default:
+      return 'строка';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Ошибка разбора с путем к проблемному месту ответа в details
+ */
+function parseError(path: string, description: string): CouponsWidgetError {
+  return new CouponsWidgetError('parse', `Некорректный ответ MOEX: ${description}`, undefined, path);
+}
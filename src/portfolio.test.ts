@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { normalizePositions } from './portfolio';
+import type { PortfolioPosition } from './portfolio';
+
+describe('normalizePositions', () => {
+  it('дополняет количество и отбрасывает пустые позиции', () => {
+    expect(normalizePositions([' RU000A107RZ1 ', { isin: 'RU000A105A95', quantity: 10 }, '', { isin: 'RU000A0JXPG2', quantity: 0 }]))
+      .toEqual([
+        { isin: 'RU000A107RZ1', quantity: 1 },
+        { isin: 'RU000A105A95', quantity: 10 },
+      ]);
+  });
+
+  it('отклоняет позицию без ISIN ошибкой config', () => {
+    const positions = JSON.parse('["RU000A107RZ1",{"quantity":10}]') as PortfolioPosition[];
+
+    expect(() => normalizePositions(positions))
+      .toThrow(expect.objectContaining({ type: 'config', details: 'portfolio[1]' }));
+  });
+
+  it('отклоняет нечисловое количество', () => {
+    const positions = JSON.parse('[{"isin":"RU000A107RZ1","quantity":"10"}]') as PortfolioPosition[];
+
+    expect(() => normalizePositions(positions))
+      .toThrow(expect.objectContaining({ type: 'config', details: 'portfolio[0]' }));
+  });
+});
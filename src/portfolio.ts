@@ -0,0 +1,108 @@
+import type { CouponData } from './coupons-widget';
+import { CouponsWidgetError } from './errors';
+import { compareSchedule, roundAmount } from './schedule';
+
+/**
+ * Позиция портфеля: ISIN или ISIN с количеством облигаций
+ */
+export type PortfolioPosition = string | { isin: string; quantity?: number };
+
+/**
+ * Позиция с заполненным количеством
+ */
+export interface PortfolioEntry {
+  isin: string;
+  quantity: number;
+}
+
+/**
+ * График одной позиции для объединения
+ */
+export interface PositionSchedule {
+  position: PortfolioEntry;
+  data: CouponData[];
+}
+
+/**
+ * Сумма выплат за месяц в одной валюте
+ */
+export interface MonthlyTotal {
+  // Первое число месяца
+  month: Date;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Приведение позиций из опций: пустые ISIN отбрасываются, количество по умолчанию 1.
+ * Позиция не того типа (например, из JSON в data-portfolio) - ошибка config с индексом позиции.
+ */
+export function normalizePositions(positions: PortfolioPosition[]): PortfolioEntry[] {
+  if (!Array.isArray(positions)) {
+    throw new CouponsWidgetError('config', 'Портфель должен быть массивом позиций', undefined, 'portfolio');
+  }
+
+  return positions
+    .map((position, index) => {
+      if (typeof position === 'string') {
+        return { isin: position.trim(), quantity: 1 };
+      }
+      const details = `portfolio[${index}]`;
+      if (!position || typeof position !== 'object' || typeof position.isin !== 'string') {
+        throw new CouponsWidgetError('config', `Позиция ${details}: ожидается ISIN или { isin, quantity }`, undefined, details);
+      }
+      if (position.quantity !== undefined && (typeof position.quantity !== 'number' || !Number.isFinite(position.quantity))) {
+        throw new CouponsWidgetError('config', `Позиция ${details}: количество должно быть числом`, undefined, details);
+      }
+      return { isin: position.isin.trim(), quantity: position.quantity ?? 1 };
+    })
+    .filter(position => position.isin !== '' && position.quantity > 0);
+}
+
+/**
+ * Единый хронологический график портфеля: суммы умножены на количество,
+ * записи подписаны ISIN и названием облигации. Текущей остается только ближайшая выплата.
+ */
+export function mergeSchedules(schedules: PositionSchedule[]): CouponData[] {
+  const merged = schedules.flatMap(({ position, data }) => data.map(item => ({
+    ...item,
+    isin: item.isin || position.isin,
+    name: item.name || position.isin,
+    amount: item.amount === null ? null : roundAmount(item.amount * position.quantity),
+    quantity: position.quantity,
+  })));
+
+  merged.sort(compareSchedule);
+
+  let currentFound = false;
+  return merged.map(item => {
+    if (!item.current) return item;
+    if (currentFound) {
+      return { ...item, current: false, ...(item.status === 'current' ? { status: 'future' as const } : {}) };
+    }
+    currentFound = true;
+    return item;
+  });
+}
+
+/**
+ * Суммы купонов, амортизаций и погашений по месяцам (оферты не учитываются)
+ */
+export function monthlyTotals(data: CouponData[]): MonthlyTotal[] {
+  const totals = new Map<string, MonthlyTotal>();
+
+  data.forEach(item => {
+    if (item.type === 'offer' || item.amount === null) return;
+
+    const month = new Date(item.date.getFullYear(), item.date.getMonth(), 1);
+    const key = `${month.getTime()}:${item.currency}`;
+    const total = totals.get(key);
+    if (total) {
+      total.amount = roundAmount(total.amount + item.amount);
+    } else {
+      totals.set(key, { month, amount: item.amount, currency: item.currency });
+    }
+  });
+
+  return Array.from(totals.values());
+}
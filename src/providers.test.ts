@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { formatIsoDate } from './dates';
+import { JsonUrlProvider, MoexProvider, isUrl } from './providers';
+import { findCurrent } from './status';
+import columnsFixture from './__fixtures__/bondization-columns.json';
+import extendedFixture from './__fixtures__/bondization-extended.json';
+import marketdataFixture from './__fixtures__/marketdata.json';
+
+/**
+ * fetch, отвечающий заданным JSON
+ */
+function stubFetch(json: unknown) {
+  const fetch = vi.fn(async (_input: RequestInfo | URL) => new Response(JSON.stringify(json), { status: 200 }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+// День выплаты купона и оферты по Москве
+const NOW = new Date('2025-06-12T09:00:00+03:00');
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('MoexProvider', () => {
+  it('запрашивает bondization на языке провайдера', async () => {
+    const fetch = stubFetch(extendedFixture);
+
+    await new MoexProvider(undefined, 'en').load('RU000A107RZ1', { now: NOW });
+
+    expect(String(fetch.mock.calls[0][0])).toBe('https://iss.moex.com/iss/securities/RU000A107RZ1/bondization.json' +
+      '?iss.json=extended&iss.meta=off&iss.only=coupons,amortizations,offers&lang=en&limit=unlimited');
+  });
+
+  it('собирает единый хронологический график', async () => {
+    stubFetch(extendedFixture);
+
+    const data = await new MoexProvider().load('RU000A107RZ1', { now: NOW });
+
+    expect(data.map(item => [formatIsoDate(item.date), item.type, item.status])).toEqual([
+      ['2024-09-12', 'coupon', 'past'],
+      ['2024-12-12', 'coupon', 'past'],
+      ['2025-03-13', 'coupon', 'past'],
+      ['2025-03-13', 'amortization', 'past'],
+      ['2025-06-12', 'coupon', 'today'],
+      ['2025-06-12', 'offer', 'today'],
+      ['2025-09-11', 'coupon', 'unannounced'],
+      ['2025-12-11', 'coupon', 'unannounced'],
+      ['2025-12-11', 'maturity', 'future'],
+    ]);
+    expect(findCurrent(data, NOW)).toBe(data[4]);
+  });
+
+  it('переносит суммы, номинал, валюту и описание оферты', async () => {
+    stubFetch(extendedFixture);
+
+    const data = await new MoexProvider().load('RU000A107RZ1', { now: NOW });
+
+    expect(data[3]).toMatchObject({ rate: 50, amount: 500, currency: 'RUB' });
+    expect(data[4]).toMatchObject({
+      rate: 10,
+      amount: 12.47,
+      faceValue: 500,
+      isin: 'RU000A107RZ1',
+      name: 'Облигации 001Р-01',
+    });
+    expect(formatIsoDate(data[4].startDate!)).toBe('2025-03-13');
+    expect(data[5].description).toBe('Оферта по выбору держателя');
+    expect(data[6]).toMatchObject({ rate: null, amount: null });
+  });
+
+  it('разбирает ответ columns/data', async () => {
+    stubFetch(columnsFixture);
+
+    const data = await new MoexProvider().load('RU000A105A95', { now: NOW });
+
+    expect(data.map(item => [formatIsoDate(item.date), item.type, item.currency])).toEqual([
+      ['2025-04-03', 'coupon', 'USD'],
+      ['2025-10-03', 'coupon', 'USD'],
+      ['2025-10-03', 'maturity', 'USD'],
+    ]);
+  });
+
+  it('берет цену закрытия, если сделок сегодня не было', async () => {
+    stubFetch(marketdataFixture);
+
+    expect(await new MoexProvider().loadPrice('RU000A107RZ1')).toBe(99.75);
+  });
+
+  it('отклоняет некорректный ответ ошибкой разбора', async () => {
+    stubFetch({ error: 'not found' });
+
+    await expect(new MoexProvider().load('XX0000000000')).rejects.toMatchObject({ type: 'parse' });
+  });
+});
+
+describe('JsonUrlProvider', () => {
+  it('требует массив, если функция преобразования не задана', async () => {
+    stubFetch({ coupons: [] });
+
+    await expect(new JsonUrlProvider().load('/api/coupons')).rejects.toMatchObject({ type: 'parse' });
+  });
+
+  it('применяет функцию преобразования', async () => {
+    stubFetch({ items: [{ paymentDate: '15.07.2025', rate: '12%', amount: '30 ₽' }] });
+
+    const data = await new JsonUrlProvider(json => json.items).load('/api/coupons');
+
+    expect(data).toEqual([{ paymentDate: '15.07.2025', rate: '12%', amount: '30 ₽' }]);
+  });
+});
+
+describe('isUrl', () => {
+  it('отличает URL от ISIN', () => {
+    expect(isUrl('https://example.com/coupons.json')).toBe(true);
+    expect(isUrl('/api/coupons')).toBe(true);
+    expect(isUrl('./coupons.json')).toBe(true);
+    expect(isUrl('RU000A107RZ1')).toBe(false);
+  });
+});
@@ -0,0 +1,217 @@
+import type { CouponData, CouponDataInput } from './coupons-widget';
+import { CouponsWidgetError } from './errors';
+import { parseIsoDate } from './dates';
+import { currencyFromFaceUnit } from './format';
+import { RequestOptions, fetchJson } from './http';
+import { MoexBondization, parseBondization, parseMarketData } from './moex-parser';
+import { compareSchedule } from './schedule';
+import { withStatuses } from './status';
+
+/**
+ * Источник данных купонов
+ */
+export interface CouponsProvider {
+  /**
+   * Загрузка купонов по ISIN или URL. Реализация должна учитывать
+   * request.signal, чтобы отмененные запросы не продолжали работу.
+   */
+  load(source: string, request?: RequestOptions): Promise<CouponDataInput[]>;
+
+  /**
+   * Текущая чистая цена в процентах от номинала (для НКД и доходностей), null - цена неизвестна
+   */
+  loadPrice?(source: string, request?: RequestOptions): Promise<number | null>;
+}
+
+/**
+ * Пользовательская функция загрузки купонов
+ */
+export type CouponsLoader = (source: string, request?: RequestOptions) => Promise<CouponDataInput[]>;
+
+/**
+ * Преобразование JSON-ответа в данные виджета
+ */
+export type CouponsMapper = (json: any) => CouponDataInput[];
+
+/**
+ * Варианты выбора провайдера в опциях виджета
+ */
+export type ProviderOption = 'moex' | 'json' | CouponsProvider | CouponsLoader;
+
+/**
+ * Элемент графика MOEX с исходной датой ISS
+ */
+interface MoexScheduleEntry {
+  date: string;
+  data: CouponData;
+}
+
+/**
+ * Провайдер MOEX ISS (используется по умолчанию)
+ */
+export class MoexProvider implements CouponsProvider {
+  constructor(
+    private baseUrl: string = 'https://iss.moex.com/iss',
+    private lang: string = 'ru'
+  ) { }
+
+  public async load(isin: string, request: RequestOptions = {}): Promise<CouponData[]> {
+    const json = await fetchJson(
+      `${this.baseUrl}/securities/${encodeURIComponent(isin)}/bondization.json?iss.json=extended&iss.meta=off&iss.only=coupons,amortizations,offers&lang=${this.lang}&limit=unlimited`,
+      request,
+      'Ошибка загрузки данных с MOEX'
+    );
+
+    // Преобразуем данные MOEX в формат виджета
+    return this.convertMOEXData(parseBondization(json), request.now);
+  }
+
+  /**
+   * Цена последней сделки, иначе цена закрытия предыдущего дня
+   */
+  public async loadPrice(isin: string, request: RequestOptions = {}): Promise<number | null> {
+    const json = await fetchJson(
+      `${this.baseUrl}/engines/stock/markets/bonds/securities/${encodeURIComponent(isin)}.json?iss.json=extended&iss.meta=off&iss.only=securities,marketdata&securities.columns=BOARDID,PREVPRICE&marketdata.columns=BOARDID,LAST`,
+      request,
+      'Ошибка загрузки цены с MOEX'
+    );
+
+    const { securities, marketdata } = parseMarketData(json);
+    const last = marketdata.find(row => row.LAST !== null);
+    if (last) {
+      return last.LAST;
+    }
+    return securities.find(row => row.PREVPRICE !== null)?.PREVPRICE ?? null;
+  }
+
+  /**
+   * Преобразование данных MOEX в единый хронологический график
+   */
+  private convertMOEXData(bondization: MoexBondization, now?: Date): CouponData[] {
+    const entries = this.collectEntries(bondization);
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const sortedEntries = entries.sort((a, b) => compareSchedule(a.data, b.data));
+
+    // Статусы на момент загрузки; виджет пересчитывает их при каждой перерисовке
+    return withStatuses(sortedEntries.map(entry => entry.data), now);
+  }
+
+  /**
+   * Сбор купонов, амортизаций и оферт в общий список
+   */
+  private collectEntries({ coupons, amortizations, offers }: MoexBondization): MoexScheduleEntry[] {
+    // Краткое название облигации для подписи записей в портфеле
+    const bondName = [...coupons, ...amortizations, ...offers].find(row => row.name)?.name;
+    const bond = (isin: string) => ({ isin, ...(bondName ? { name: bondName } : {}) });
+
+    const couponEntries = coupons.map<MoexScheduleEntry>(coupon => ({
+      date: coupon.coupondate,
+      data: {
+        type: 'coupon',
+        date: parseIsoDate(coupon.coupondate),
+        rate: coupon.valueprc,
+        amount: coupon.value,
+        currency: currencyFromFaceUnit(coupon.faceunit),
+        faceValue: coupon.facevalue,
+        ...(coupon.startdate ? { startDate: parseIsoDate(coupon.startdate) } : {}),
+        ...bond(coupon.isin),
+      },
+    }));
+
+    // Последняя амортизация - погашение номинала
+    const lastAmortDate = amortizations.reduce<string | null>((last, row) =>
+      last === null || row.amortdate > last ? row.amortdate : last, null);
+
+    const amortizationEntries = amortizations.map<MoexScheduleEntry>(row => ({
+      date: row.amortdate,
+      data: {
+        type: row.amortdate === lastAmortDate ? 'maturity' : 'amortization',
+        date: parseIsoDate(row.amortdate),
+        rate: row.valueprc,
+        amount: row.value,
+        currency: currencyFromFaceUnit(row.faceunit),
+        ...bond(row.isin),
+      },
+    }));
+
+    const offerEntries = offers.map<MoexScheduleEntry>(offer => ({
+      date: offer.offerdate,
+      data: {
+        type: 'offer',
+        date: parseIsoDate(offer.offerdate),
+        rate: offer.price,
+        amount: offer.value,
+        currency: currencyFromFaceUnit(offer.faceunit),
+        ...(offer.offertype ? { description: offer.offertype } : {}),
+        ...bond(offer.isin),
+      },
+    }));
+
+    return [...couponEntries, ...amortizationEntries, ...offerEntries];
+  }
+}
+
+/**
+ * Провайдер произвольного JSON по URL с функцией преобразования
+ */
+export class JsonUrlProvider implements CouponsProvider {
+  constructor(private mapData: CouponsMapper = defaultMapper) { }
+
+  public async load(url: string, request: RequestOptions = {}): Promise<CouponDataInput[]> {
+    return this.mapData(await fetchJson(url, request));
+  }
+}
+
+/**
+ * Провайдер на основе пользовательской асинхронной функции
+ */
+export class FunctionProvider implements CouponsProvider {
+  constructor(private loader: CouponsLoader) { }
+
+  public load(source: string, request: RequestOptions = {}): Promise<CouponDataInput[]> {
+    return this.loader(source, request);
+  }
+}
+
+/**
+ * Преобразование по умолчанию: ответ уже является массивом CouponData
+ */
+function defaultMapper(json: any): CouponDataInput[] {
+  if (!Array.isArray(json)) {
+    throw new CouponsWidgetError('parse', 'Ожидался массив данных купонов');
+  }
+  return json;
+}
+
+/**
+ * Проверка, является ли строка URL, а не ISIN
+ */
+export function isUrl(value: string): boolean {
+  return /^(https?:)?\/\//i.test(value) || value.startsWith('/') || value.startsWith('./');
+}
+
+/**
+ * Создание провайдера по значению опции
+ */
+export function createProvider(
+  provider: ProviderOption,
+  mapData?: CouponsMapper | null,
+  lang?: string
+): CouponsProvider {
+  if (typeof provider === 'function') {
+    return new FunctionProvider(provider);
+  }
+
+  if (typeof provider === 'object' && provider !== null) {
+    return provider;
+  }
+
+  if (provider === 'json') {
+    return new JsonUrlProvider(mapData || undefined);
+  }
+
+  return new MoexProvider(undefined, lang);
+}
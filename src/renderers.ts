@@ -0,0 +1,39 @@
+import type ElementBuilder from './element-builder';
+import type { EnhancedElement } from './element-builder';
+import type { CouponData } from './coupons-widget';
+import type { CouponFormatter } from './format';
+import type { WidgetMessages } from './i18n';
+import type { CouponStatus } from './status';
+
+/**
+ * Результат пользовательского рендерера: любой DOM-узел или EnhancedElement
+ */
+export type RenderResult = Node | EnhancedElement;
+
+/**
+ * Контекст, передаваемый в рендереры состояний виджета
+ */
+export interface RenderContext {
+  builder: typeof ElementBuilder;
+  formatter: CouponFormatter;
+  messages: WidgetMessages;
+  // Стандартная разметка этой части виджета
+  defaultRender: () => EnhancedElement;
+}
+
+/**
+ * Контекст рендерера записи графика
+ */
+export interface ItemRenderContext extends RenderContext {
+  status: CouponStatus;
+}
+
+/**
+ * Переопределения частей разметки. Части без переопределения рендерятся стандартно.
+ */
+export interface CouponsWidgetRenderers {
+  listItem?: (item: CouponData, context: ItemRenderContext) => RenderResult;
+  empty?: (context: RenderContext) => RenderResult;
+  loading?: (context: RenderContext) => RenderResult;
+  error?: (message: string, context: RenderContext) => RenderResult;
+}
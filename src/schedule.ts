@@ -0,0 +1,34 @@
+import type { CouponData, ScheduleEntryType } from './coupons-widget';
+
+/**
+ * Порядок типов выплат в пределах одной даты
+ */
+export const SCHEDULE_ORDER: ScheduleEntryType[] = ['coupon', 'amortization', 'maturity', 'offer'];
+
+/**
+ * Купон (записи без type - купоны прежнего формата)
+ */
+export function isCoupon(item: CouponData): boolean {
+  return !item.type || item.type === 'coupon';
+}
+
+/**
+ * Место типа записи в SCHEDULE_ORDER
+ */
+export function typeOrder(item: CouponData): number {
+  return SCHEDULE_ORDER.indexOf(item.type || 'coupon');
+}
+
+/**
+ * Хронологический порядок графика: по дате, в один день - по типу выплаты
+ */
+export function compareSchedule(a: CouponData, b: CouponData): number {
+  return a.date.getTime() - b.date.getTime() || typeOrder(a) - typeOrder(b);
+}
+
+/**
+ * Округление суммы до копеек, чтобы не накапливать ошибку float
+ */
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { CouponData } from './coupons-widget';
+import { estimateUnannounced, findCurrent, getItemStatus, withStatuses } from './status';
+
+const NOW = new Date('2025-07-15T12:00:00+03:00');
+
+const SCHEDULE: CouponData[] = [
+  { type: 'coupon', date: new Date(2025, 3, 15), rate: 10, amount: 50, faceValue: 1000, currency: 'RUB' },
+  { type: 'coupon', date: new Date(2025, 6, 15), rate: 10, amount: 50, faceValue: 1000, currency: 'RUB' },
+  { type: 'coupon', date: new Date(2025, 9, 15), rate: 11, amount: 55, faceValue: 1000, currency: 'RUB' },
+  { type: 'coupon', date: new Date(2026, 0, 15), rate: null, amount: null, faceValue: 500, currency: 'RUB' },
+  { type: 'maturity', date: new Date(2026, 0, 15), rate: 100, amount: 500, currency: 'RUB' },
+];
+
+describe('getItemStatus', () => {
+  it('определяет статус по дате, а не по сохраненному полю', () => {
+    const cached: CouponData = { ...SCHEDULE[1], status: 'future', current: true };
+
+    expect(getItemStatus(cached, NOW)).toBe('today');
+    expect(getItemStatus(cached, new Date('2025-07-16T12:00:00+03:00'))).toBe('past');
+  });
+
+  it('учитывает поле status для записи без даты', () => {
+    expect(getItemStatus({ ...SCHEDULE[0], date: new Date(NaN), status: 'current' }, NOW)).toBe('current');
+  });
+
+  it('считает сегодняшний день по Москве', () => {
+    expect(getItemStatus(SCHEDULE[2], new Date('2025-10-14T22:00:00Z'))).toBe('today');
+  });
+});
+
+describe('withStatuses', () => {
+  it('отмечает ближайший предстоящий купон текущим', () => {
+    const now = new Date('2025-07-16T12:00:00+03:00');
+    const data = withStatuses(SCHEDULE, now);
+
+    expect(data.map(item => item.status)).toEqual(['past', 'past', 'current', 'unannounced', 'future']);
+    expect(findCurrent(data, now)).toBe(data[2]);
+  });
+
+  it('сохраняет флаги current и disabled, заданные в данных', () => {
+    const marked: CouponData[] = [
+      { ...SCHEDULE[1], disabled: false },
+      { ...SCHEDULE[2], current: true },
+      { ...SCHEDULE[4], disabled: true },
+    ];
+    const data = withStatuses(marked, NOW);
+
+    expect(data.map(item => [item.status, item.current, item.disabled])).toEqual([
+      ['today', undefined, false],
+      ['current', true, undefined],
+      ['future', undefined, true],
+    ]);
+    expect(findCurrent(data, NOW)).toBe(data[1]);
+  });
+
+  it('не выбирает текущим купон с current: false', () => {
+    const data = [{ ...SCHEDULE[1], current: false }, SCHEDULE[2]];
+
+    expect(findCurrent(data, NOW)).toBe(data[1]);
+  });
+
+  it('возвращает неизменившиеся записи как есть', () => {
+    const data = withStatuses(SCHEDULE, NOW);
+
+    expect(withStatuses(data, NOW)).toEqual(data);
+    expect(withStatuses(data, NOW)[0]).toBe(data[0]);
+  });
+});
+
+describe('estimateUnannounced', () => {
+  it('оценивает купон по последней ставке с пересчетом на номинал', () => {
+    const data = estimateUnannounced(SCHEDULE, NOW);
+
+    expect(data[3]).toMatchObject({ rate: 11, amount: 27.5, estimated: true });
+    expect(getItemStatus(data[3], NOW)).toBe('unannounced');
+    expect(data.filter(item => item.estimated)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,97 @@
+import type { CouponData } from './coupons-widget';
+import { daysBetween, exchangeToday } from './dates';
+import { isCoupon, roundAmount } from './schedule';
+
+/**
+ * Статус записи графика относительно текущей даты:
+ * past - прошла, today - выплата сегодня, current - ближайший купон,
+ * future - предстоит, unannounced - купон, ставка которого еще не определена
+ */
+export type CouponStatus = 'past' | 'current' | 'today' | 'future' | 'unannounced';
+
+/**
+ * Статус записи по дате: выплата сегодня важнее неопределенной ставки, а та - признака
+ * текущего купона. Поле status и флаги учитываются только для записей без корректной даты.
+ * Сегодняшний день определяется по календарю биржи (Москва).
+ */
+export function getItemStatus(item: CouponData, now: Date = new Date()): CouponStatus {
+  if (!hasDate(item)) {
+    return item.status || (item.disabled ? 'past' : item.current ? 'current' : 'future');
+  }
+
+  const days = daysBetween(exchangeToday(now), item.date);
+  if (days < 0) return 'past';
+  if (days === 0) return 'today';
+  if (isUnannounced(item)) return 'unannounced';
+  return item.current ? 'current' : 'future';
+}
+
+/**
+ * Статусы графика на момент now. Флаги current и disabled не меняются: их задает вызывающий код,
+ * а текущий купон по умолчанию - ближайший предстоящий (см. findCurrent). Неизменившиеся записи
+ * возвращаются как есть.
+ */
+export function withStatuses(data: CouponData[], now: Date = new Date()): CouponData[] {
+  const current = findCurrent(data, now);
+
+  return data.map(item => {
+    if (!hasDate(item)) return item;
+
+    const status = getItemStatus({ ...item, current: item === current }, now);
+    return item.status === status ? item : { ...item, status };
+  });
+}
+
+/**
+ * Текущая запись графика: отмеченная флагом current, иначе ближайший купон не раньше сегодняшнего дня
+ * (кроме записей с current: false)
+ */
+export function findCurrent(data: CouponData[], now: Date = new Date()): CouponData | null {
+  const marked = data.find(item => item.current);
+  if (marked) return marked;
+
+  const today = exchangeToday(now);
+  return data.reduce<CouponData | null>((nearest, item) =>
+    isCoupon(item) && item.current !== false && hasDate(item) && item.date >= today
+      && (!nearest || item.date < nearest.date)
+      ? item
+      : nearest, null);
+}
+
+/**
+ * Купон без объявленных ставки и суммы (в том числе с их оценкой)
+ */
+export function isUnannounced(item: CouponData): boolean {
+  return isCoupon(item) && (Boolean(item.estimated) || item.rate === null && item.amount === null);
+}
+
+/**
+ * Оценка неопределенных купонов по последней известной ставке той же облигации.
+ * Сумма пересчитывается на номинал купона, если номиналы известны. Оценки помечаются estimated.
+ */
+export function estimateUnannounced(data: CouponData[], now: Date = new Date()): CouponData[] {
+  const lastKnown = new Map<string, CouponData>();
+
+  return data.map(item => {
+    if (!isCoupon(item)) return item;
+
+    const key = item.isin || '';
+    if (!isUnannounced(item)) {
+      lastKnown.set(key, item);
+      return item;
+    }
+
+    const last = lastKnown.get(key);
+    if (!last || getItemStatus(item, now) === 'past') return item;
+
+    const amount = last.amount !== null && item.faceValue && last.faceValue
+      ? roundAmount(last.amount * item.faceValue / last.faceValue)
+      : last.amount;
+
+    return { ...item, rate: last.rate, amount, estimated: true };
+  });
+}
+
+function hasDate(item: CouponData): boolean {
+  return item.date instanceof Date && !isNaN(item.date.getTime());
+}
@@ -0,0 +1,586 @@
+/**
+ * Тема оформления виджета
+ */
+export type WidgetTheme = 'light' | 'dark' | 'auto';
+
+/**
+ * Стандартная тема виджета.
+ * Публичные CSS-переменные --cw-* задаются снаружи (на виджете или любом предке),
+ * внутренние --_cw-* подставляют значения темы, если переменная не задана.
+ */
+export const DEFAULT_STYLES = `
+.coupons-widget {
+  --_cw-font: var(--cw-font, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif);
+  --_cw-radius: var(--cw-radius, 12px);
+  --_cw-bg: var(--cw-bg, #fff);
+  --_cw-text: var(--cw-text, #212529);
+  --_cw-muted: var(--cw-muted, #6c757d);
+  --_cw-border: var(--cw-border, #f0f0f0);
+  --_cw-shadow: var(--cw-shadow, 0 4px 20px rgba(0, 0, 0, 0.1));
+  --_cw-accent: var(--cw-accent, #2196f3);
+  --_cw-rate: var(--cw-rate-color, #28a745);
+  --_cw-amount: var(--cw-amount-color, #007bff);
+  --_cw-current-bg: var(--cw-current-bg, linear-gradient(135deg, #e3f2fd 0%, #f3e5f5 100%));
+  --_cw-disabled-bg: var(--cw-disabled-bg, #f8f9fa);
+  --_cw-label-bg: var(--cw-label-bg, #e9ecef);
+  --_cw-error: var(--cw-error, #dc3545);
+  --_cw-error-bg: var(--cw-error-bg, #f8d7da);
+
+  display: block;
+  font-family: var(--_cw-font);
+  max-width: var(--cw-max-width, 500px);
+  margin: 0 auto;
+  border-radius: var(--_cw-radius);
+  box-shadow: var(--_cw-shadow);
+  background: var(--_cw-bg);
+  color: var(--_cw-text);
+  overflow: hidden;
+  border: 1px solid var(--_cw-border);
+}
+
+.coupons-widget[data-theme="dark"] {
+  --_cw-bg: var(--cw-bg, #1e1f24);
+  --_cw-text: var(--cw-text, #e9ecef);
+  --_cw-muted: var(--cw-muted, #9aa0a6);
+  --_cw-border: var(--cw-border, #2c2e35);
+  --_cw-shadow: var(--cw-shadow, 0 4px 20px rgba(0, 0, 0, 0.4));
+  --_cw-accent: var(--cw-accent, #64b5f6);
+  --_cw-rate: var(--cw-rate-color, #81c784);
+  --_cw-amount: var(--cw-amount-color, #64b5f6);
+  --_cw-current-bg: var(--cw-current-bg, linear-gradient(135deg, #1a2a3a 0%, #2a1f33 100%));
+  --_cw-disabled-bg: var(--cw-disabled-bg, #24262c);
+  --_cw-label-bg: var(--cw-label-bg, #33363e);
+  --_cw-error: var(--cw-error, #f28b82);
+  --_cw-error-bg: var(--cw-error-bg, #3b2323);
+}
+
+@media (prefers-color-scheme: dark) {
+  .coupons-widget[data-theme="auto"] {
+    --_cw-bg: var(--cw-bg, #1e1f24);
+    --_cw-text: var(--cw-text, #e9ecef);
+    --_cw-muted: var(--cw-muted, #9aa0a6);
+    --_cw-border: var(--cw-border, #2c2e35);
+    --_cw-shadow: var(--cw-shadow, 0 4px 20px rgba(0, 0, 0, 0.4));
+    --_cw-accent: var(--cw-accent, #64b5f6);
+    --_cw-rate: var(--cw-rate-color, #81c784);
+    --_cw-amount: var(--cw-amount-color, #64b5f6);
+    --_cw-current-bg: var(--cw-current-bg, linear-gradient(135deg, #1a2a3a 0%, #2a1f33 100%));
+    --_cw-disabled-bg: var(--cw-disabled-bg, #24262c);
+    --_cw-label-bg: var(--cw-label-bg, #33363e);
+    --_cw-error: var(--cw-error, #f28b82);
+    --_cw-error-bg: var(--cw-error-bg, #3b2323);
+  }
+}
+
+.coupons-widget .summary {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px 20px;
+  padding: 16px 20px;
+  border-bottom: 1px solid var(--_cw-border);
+  background: var(--_cw-disabled-bg);
+}
+
+.coupons-widget .elem.current-yield .elem-value,
+.coupons-widget .elem.yield-to-maturity .elem-value,
+.coupons-widget .elem.yield-to-offer .elem-value {
+  color: var(--_cw-rate);
+}
+
+.coupons-widget .coupons-list {
+  padding: 0;
+  margin: 0;
+}
+
+.coupons-widget .list-item {
+  display: flex;
+  justify-content: space-between;
+  align-items: flex-start;
+  padding: 16px 20px;
+  border-bottom: 1px solid var(--_cw-border);
+  transition: all 0.2s ease;
+  position: relative;
+}
+
+.coupons-widget .list-item:last-child {
+  border-bottom: none;
+}
+
+.coupons-widget .list-item.current {
+  background: var(--_cw-current-bg);
+  border-left: 4px solid var(--_cw-accent);
+}
+
+.coupons-widget .list-item.disabled {
+  opacity: 0.6;
+  background: var(--_cw-disabled-bg);
+}
+
+.coupons-widget .list-item > div {
+  display: flex;
+  flex-direction: column;
+  gap: 5px;
+}
+
+.coupons-widget .list-item > div:first-child {
+  flex: 1;
+}
+
+.coupons-widget .list-item > div:last-child {
+  text-align: right;
+  min-width: 140px;
+}
+
+.coupons-widget .elem {
+  display: flex;
+  align-items: center;
+  justify-content: flex-start;
+}
+
+.coupons-widget .elem-title {
+  font-size: 12px;
+  color: var(--_cw-muted);
+  font-weight: 500;
+  display: block;
+  text-transform: uppercase;
+  letter-spacing: 0.5px;
+  padding-right: 5px;
+}
+
+.coupons-widget .elem-value {
+  font-size: 15px;
+  font-weight: 600;
+  color: var(--_cw-text);
+  display: block;
+  margin-top: -3px;
+}
+
+.coupons-widget .elem.payment-date .elem-value {
+  font-size: 16px;
+}
+
+.coupons-widget .elem.rate .elem-value {
+  color: var(--_cw-rate);
+}
+
+.coupons-widget .elem.amount .elem-value {
+  color: var(--_cw-amount);
+}
+
+.coupons-widget .list-item.current .elem.payment-date .elem-value {
+  color: var(--_cw-accent);
+  font-weight: 700;
+}
+
+.coupons-widget .list-item:focus-visible,
+.coupons-widget .table-row:focus-visible,
+.coupons-widget .calendar-item:focus-visible {
+  outline: 2px solid var(--_cw-accent);
+  outline-offset: -2px;
+}
+
+.coupons-widget .list-item.today,
+.coupons-widget .table-row.today,
+.coupons-widget .calendar-item.today {
+  border-left: 4px solid var(--_cw-rate);
+}
+
+.coupons-widget .unannounced .elem.rate .elem-value,
+.coupons-widget .table-row.unannounced td.rate {
+  color: var(--_cw-muted);
+  font-weight: 500;
+  font-style: italic;
+}
+
+.coupons-widget .estimated .elem-value,
+.coupons-widget .table-row.estimated td.rate,
+.coupons-widget .table-row.estimated td.amount {
+  font-style: italic;
+}
+
+.coupons-widget .status-badge {
+  align-self: flex-start;
+  padding: 1px 8px;
+  border-radius: 10px;
+  font-size: 11px;
+  font-weight: 600;
+  background: var(--_cw-label-bg);
+  color: var(--_cw-muted);
+}
+
+.coupons-widget .status-badge.today {
+  background: var(--_cw-rate);
+  color: var(--_cw-bg);
+}
+
+.coupons-widget .bond-name {
+  align-self: flex-start;
+  font-size: 13px;
+  font-weight: 600;
+  color: var(--_cw-text);
+}
+
+.coupons-widget .month-total {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 8px 20px;
+  border-bottom: 1px solid var(--_cw-border);
+  background: var(--_cw-disabled-bg);
+}
+
+.coupons-widget .month-total .elem-value {
+  margin: 0;
+  color: var(--_cw-amount);
+}
+
+.coupons-widget .calendar-month .month-total {
+  padding: 4px 8px;
+  border-bottom: none;
+  border-radius: 8px;
+}
+
+.coupons-widget .portfolio-errors {
+  padding: 10px 20px;
+  font-size: 13px;
+  color: var(--_cw-error);
+  background: var(--_cw-error-bg);
+}
+
+.coupons-widget .type-label {
+  align-self: flex-start;
+  font-size: 11px;
+  font-weight: 600;
+  text-transform: uppercase;
+  letter-spacing: 0.5px;
+  padding: 2px 8px;
+  border-radius: 10px;
+  background: var(--_cw-label-bg);
+  color: var(--_cw-muted);
+}
+
+.coupons-widget .view-switcher {
+  display: flex;
+  gap: 4px;
+  padding: 12px 20px;
+  border-bottom: 1px solid var(--_cw-border);
+}
+
+.coupons-widget .view-button {
+  padding: 4px 12px;
+  border: 1px solid var(--_cw-border);
+  border-radius: 14px;
+  background: transparent;
+  color: var(--_cw-muted);
+  font: inherit;
+  font-size: 13px;
+  cursor: pointer;
+}
+
+.coupons-widget .view-button.active {
+  border-color: var(--_cw-accent);
+  color: var(--_cw-accent);
+  font-weight: 600;
+}
+
+.coupons-widget .coupons-table-wrapper {
+  overflow-x: auto;
+}
+
+.coupons-widget .coupons-table {
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 14px;
+}
+
+.coupons-widget .coupons-table th,
+.coupons-widget .coupons-table td {
+  padding: 10px 20px;
+  text-align: left;
+  border-bottom: 1px solid var(--_cw-border);
+  white-space: nowrap;
+}
+
+.coupons-widget .coupons-table th.rate,
+.coupons-widget .coupons-table th.amount,
+.coupons-widget .coupons-table td.rate,
+.coupons-widget .coupons-table td.amount {
+  text-align: right;
+}
+
+.coupons-widget .sort-button {
+  padding: 0;
+  border: none;
+  background: none;
+  color: var(--_cw-muted);
+  font: inherit;
+  font-size: 12px;
+  font-weight: 500;
+  text-transform: uppercase;
+  letter-spacing: 0.5px;
+  cursor: pointer;
+}
+
+.coupons-widget th.sorted .sort-button {
+  color: var(--_cw-text);
+}
+
+.coupons-widget th.sorted.asc .sort-button::after {
+  content: ' ▲';
+}
+
+.coupons-widget th.sorted.desc .sort-button::after {
+  content: ' ▼';
+}
+
+.coupons-widget .table-row td.rate {
+  color: var(--_cw-rate);
+}
+
+.coupons-widget .table-row td.amount {
+  color: var(--_cw-amount);
+  font-weight: 600;
+}
+
+.coupons-widget .table-row.current {
+  background: var(--_cw-current-bg);
+}
+
+.coupons-widget .table-row.disabled {
+  opacity: 0.6;
+}
+
+.coupons-widget .coupons-calendar {
+  padding: 8px 20px 16px;
+}
+
+.coupons-widget .calendar-year-title {
+  margin: 12px 0 4px;
+  font-size: 18px;
+  font-weight: 700;
+}
+
+.coupons-widget .calendar-month-title {
+  margin: 8px 0 4px;
+  font-size: 12px;
+  color: var(--_cw-muted);
+  text-transform: uppercase;
+  letter-spacing: 0.5px;
+}
+
+.coupons-widget .calendar-item {
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  padding: 6px 8px;
+  border-radius: 8px;
+}
+
+.coupons-widget .calendar-item.current {
+  background: var(--_cw-current-bg);
+}
+
+.coupons-widget .calendar-item.disabled {
+  opacity: 0.6;
+}
+
+.coupons-widget .calendar-day {
+  min-width: 24px;
+  font-weight: 700;
+  color: var(--_cw-accent);
+}
+
+.coupons-widget .calendar-item .elem-value {
+  margin: 0 0 0 auto;
+  color: var(--_cw-amount);
+}
+
+.coupons-widget .coupons-chart {
+  padding: 12px 20px;
+}
+
+.coupons-widget .chart {
+  display: block;
+  height: auto;
+}
+
+.coupons-widget .chart-bar {
+  transition: opacity 0.2s ease;
+}
+
+.coupons-widget .chart-bar.coupon {
+  fill: var(--_cw-amount);
+}
+
+.coupons-widget .chart-bar.amortization {
+  fill: var(--_cw-rate);
+}
+
+.coupons-widget .chart-bar.current {
+  fill: var(--_cw-accent);
+  stroke: var(--_cw-text);
+  stroke-width: 1.5;
+}
+
+.coupons-widget .chart-bar.past {
+  opacity: 0.35;
+}
+
+.coupons-widget .chart-bar.unknown {
+  fill: none;
+  stroke: var(--_cw-muted);
+  stroke-dasharray: 3 2;
+}
+
+.coupons-widget .chart-bar.estimated {
+  fill-opacity: 0.5;
+  stroke: var(--_cw-amount);
+  stroke-dasharray: 3 2;
+}
+
+.coupons-widget .chart-bar:hover {
+  opacity: 0.8;
+}
+
+.coupons-widget .chart-label,
+.coupons-widget .chart-axis {
+  fill: var(--_cw-muted);
+  font-size: 11px;
+}
+
+.coupons-widget .chart-label {
+  text-transform: uppercase;
+  letter-spacing: 0.5px;
+}
+
+.coupons-widget .toggle-button {
+  display: block;
+  width: 100%;
+  padding: 12px 20px;
+  border: none;
+  border-top: 1px solid var(--_cw-border);
+  background: transparent;
+  color: var(--_cw-accent);
+  font: inherit;
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+}
+
+.coupons-widget .calculator {
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+  padding: 16px 20px;
+  border-top: 1px solid var(--_cw-border);
+}
+
+.coupons-widget .calculator input[type="number"] {
+  width: 90px;
+  padding: 4px 8px;
+  border: 1px solid var(--_cw-border);
+  border-radius: 6px;
+  background: transparent;
+  color: var(--_cw-text);
+  font: inherit;
+}
+
+.coupons-widget .calculator-tax {
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  font-size: 14px;
+  color: var(--_cw-muted);
+}
+
+.coupons-widget .calculator-totals {
+  display: flex;
+  flex-direction: column;
+  gap: 5px;
+}
+
+.coupons-widget .elem.income-year .elem-value,
+.coupons-widget .elem.income-total .elem-value {
+  color: var(--_cw-amount);
+}
+
+.coupons-widget .export-buttons {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+  padding: 12px 20px;
+  border-top: 1px solid var(--_cw-border);
+}
+
+.coupons-widget .export-button {
+  padding: 6px 12px;
+  border: 1px solid var(--_cw-accent);
+  border-radius: 6px;
+  background: transparent;
+  color: var(--_cw-accent);
+  font: inherit;
+  font-size: 13px;
+  font-weight: 600;
+  cursor: pointer;
+}
+
+.coupons-widget .loading,
+.coupons-widget .empty,
+.coupons-widget .error {
+  padding: 40px 24px;
+  text-align: center;
+  color: var(--_cw-muted);
+  font-size: 15px;
+}
+
+.coupons-widget .loading {
+  color: var(--_cw-accent);
+}
+
+.coupons-widget .error {
+  color: var(--_cw-error);
+  background: var(--_cw-error-bg);
+}
+
+@media (max-width: 480px) {
+  .coupons-widget {
+    max-width: 100%;
+    margin: 0;
+    border-radius: 8px;
+  }
+
+  .coupons-widget .list-item {
+    flex-direction: column;
+    align-items: flex-start;
+    gap: 16px;
+  }
+
+  .coupons-widget .list-item > div:last-child {
+    text-align: left;
+    min-width: auto;
+    width: 100%;
+  }
+}
+`;
+
+const DOCUMENT_STYLE_ID = 'coupons-widget-styles';
+
+/**
+ * Элемент <style> со стандартной темой
+ */
+export function createStyleElement(): HTMLStyleElement {
+  const style = document.createElement('style');
+  style.textContent = DEFAULT_STYLES;
+  return style;
+}
+
+/**
+ * Однократное подключение стандартной темы к документу (режим без Shadow DOM)
+ */
+export function injectDocumentStyles(): void {
+  if (document.getElementById(DOCUMENT_STYLE_ID)) return;
+
+  const style = createStyleElement();
+  style.id = DOCUMENT_STYLE_ID;
+  document.head.appendChild(style);
+}
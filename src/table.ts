@@ -0,0 +1,61 @@
+import type { CouponData } from './coupons-widget';
+import { typeOrder } from './schedule';
+
+/**
+ * Колонки табличного вида
+ */
+export type TableColumn = 'date' | 'bond' | 'type' | 'rate' | 'amount';
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Текущая сортировка таблицы
+ */
+export interface TableSort {
+  column: TableColumn;
+  direction: SortDirection;
+}
+
+export const TABLE_COLUMNS: TableColumn[] = ['date', 'type', 'rate', 'amount'];
+
+// В портфеле добавляется колонка облигации
+export const PORTFOLIO_TABLE_COLUMNS: TableColumn[] = ['date', 'bond', 'type', 'rate', 'amount'];
+
+/**
+ * Сортировка графика по колонке. Пустые ставки и суммы всегда в конце,
+ * при равенстве сохраняется хронологический порядок.
+ */
+export function sortSchedule(data: CouponData[], sort: TableSort): CouponData[] {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+
+  return data
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => {
+      const left = sortValue(a.item, sort.column);
+      const right = sortValue(b.item, sort.column);
+
+      if (left === null || right === null) {
+        return left === right ? a.index - b.index : left === null ? 1 : -1;
+      }
+      const difference = typeof left === 'string' || typeof right === 'string'
+        ? String(left).localeCompare(String(right))
+        : left - right;
+      return difference * sign || a.index - b.index;
+    })
+    .map(({ item }) => item);
+}
+
+function sortValue(item: CouponData, column: TableColumn): number | string | null {
+  switch (column) {
+    case 'bond':
+      return item.name || item.isin || null;
+    case 'type':
+      return typeOrder(item);
+    case 'rate':
+      return item.rate;
+    case 'amount':
+      return item.amount;
+    default:
+      return item.date.getTime();
+  }
+}
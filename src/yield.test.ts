@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { CouponData } from './coupons-widget';
+import { accruedInterest, calculateYield, effectiveYield } from './yield';
+
+// 15.04.2025 по Москве: 90 дней купонного периода из 181
+const NOW = new Date('2025-04-15T12:00:00+03:00');
+
+function bond(withOffer: boolean = false): CouponData[] {
+  const coupon = (date: Date, startDate: Date): CouponData => ({
+    type: 'coupon', date, startDate, rate: 10, amount: 50, faceValue: 1000, currency: 'RUB',
+  });
+  return [
+    coupon(new Date(2025, 0, 15), new Date(2024, 6, 15)),
+    coupon(new Date(2025, 6, 15), new Date(2025, 0, 15)),
+    ...(withOffer ? [{ type: 'offer' as const, date: new Date(2025, 6, 15), rate: 100, amount: null, currency: 'RUB' }] : []),
+    coupon(new Date(2026, 0, 15), new Date(2025, 6, 15)),
+    { type: 'maturity', date: new Date(2026, 0, 15), rate: 100, amount: 1000, currency: 'RUB' },
+  ];
+}
+
+describe('accruedInterest', () => {
+  it('пропорционален прошедшим дням купонного периода', () => {
+    expect(accruedInterest(bond(), NOW)).toBe(24.86);
+  });
+
+  it('равен нулю в день выплаты купона', () => {
+    expect(accruedInterest(bond(), new Date('2025-07-15T12:00:00+03:00'))).toBe(0);
+  });
+});
+
+describe('calculateYield', () => {
+  it('считает текущую доходность и доходность к погашению', () => {
+    expect(calculateYield(bond(), 100, NOW)).toEqual({
+      accruedInterest: 24.86,
+      currentYield: 10,
+      yieldToMaturity: 10.18,
+      yieldToOffer: null,
+      offerDate: null,
+    });
+    expect(calculateYield(bond(), 98, NOW).yieldToMaturity).toBe(13.2);
+  });
+
+  it('считает доходность к ближайшей оферте', () => {
+    const metrics = calculateYield(bond(true), 98, NOW);
+
+    expect(metrics.offerDate).toEqual(new Date(2025, 6, 15));
+    expect(metrics.yieldToOffer).toBe(19.27);
+  });
+
+  it('без цены возвращает только НКД', () => {
+    expect(calculateYield(bond(), null, NOW)).toMatchObject({
+      accruedInterest: 24.86,
+      currentYield: null,
+      yieldToMaturity: null,
+    });
+  });
+});
+
+describe('effectiveYield', () => {
+  it('решает уравнение приведенной стоимости', () => {
+    const now = new Date('2025-01-01T12:00:00+03:00');
+
+    expect(effectiveYield(1000, [{ date: new Date(2026, 0, 1), amount: 1100, principal: true }], now)).toBe(10);
+  });
+
+  it('возвращает null без будущих потоков', () => {
+    expect(effectiveYield(1000, [], NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import type { CouponData } from './coupons-widget';
+import { daysBetween, exchangeToday } from './dates';
+import { isCoupon, roundAmount } from './schedule';
+
+/**
+ * Показатели облигации при заданной чистой цене
+ */
+export interface YieldMetrics {
+  // НКД на одну облигацию в валюте номинала
+  accruedInterest: number | null;
+  // Доходности в процентах годовых
+  currentYield: number | null;
+  yieldToMaturity: number | null;
+  yieldToOffer: number | null;
+  // Ближайшая оферта, к которой считается yieldToOffer
+  offerDate: Date | null;
+}
+
+/**
+ * Платеж на одну облигацию
+ */
+export interface CashFlow {
+  date: Date;
+  amount: number;
+  // Возврат номинала (амортизация или погашение), а не купон
+  principal?: boolean;
+}
+
+const DAYS_IN_YEAR = 365;
+
+/**
+ * НКД, текущая доходность и эффективная доходность к погашению и ближайшей оферте.
+ * price - чистая цена в процентах от текущего номинала.
+ */
+export function calculateYield(data: CouponData[], price: number | null, now: Date = new Date()): YieldMetrics {
+  const today = exchangeToday(now);
+  const accrued = accruedOn(data, today);
+  const offer = data.find(item => item.type === 'offer' && item.date > today) || null;
+
+  const metrics: YieldMetrics = {
+    accruedInterest: accrued,
+    currentYield: null,
+    yieldToMaturity: null,
+    yieldToOffer: null,
+    offerDate: offer ? offer.date : null,
+  };
+
+  const faceValue = currentFaceValue(data, today);
+  if (price === null || price <= 0 || faceValue === null) {
+    return metrics;
+  }
+
+  const coupon = nextCoupon(data, today);
+  if (coupon && coupon.rate !== null) {
+    metrics.currentYield = roundYield(coupon.rate * 100 / price);
+  }
+
+  // Грязная цена: чистая цена плюс НКД
+  const dirtyPrice = price / 100 * faceValue + (accrued || 0);
+  const flows = cashFlows(data, today);
+
+  metrics.yieldToMaturity = solveYield(dirtyPrice, flows, today);
+
+  if (offer) {
+    // Досрочное погашение остатка номинала по цене оферты
+    const flowsToOffer = flows.filter(flow => flow.date <= offer.date);
+    const repaid = flowsToOffer.reduce((sum, flow) => sum + (flow.principal ? flow.amount : 0), 0);
+    const offerPrice = offer.rate ?? 100;
+    flowsToOffer.push({ date: offer.date, amount: (faceValue - repaid) * offerPrice / 100 });
+    metrics.yieldToOffer = solveYield(dirtyPrice, flowsToOffer, today);
+  }
+
+  return metrics;
+}
+
+/**
+ * НКД: доля текущего купона, пропорциональная прошедшим дням купонного периода
+ */
+export function accruedInterest(data: CouponData[], now: Date = new Date()): number | null {
+  return accruedOn(data, exchangeToday(now));
+}
+
+/**
+ * Ставка r, при которой дисконтированные потоки равны цене: sum(CF / (1 + r)^(t / 365)) = price.
+ * Решается делением отрезка: приведенная стоимость монотонно убывает по r.
+ */
+export function effectiveYield(price: number, flows: CashFlow[], now: Date = new Date()): number | null {
+  return solveYield(price, flows, exchangeToday(now));
+}
+
+/**
+ * НКД на дату биржи today
+ */
+function accruedOn(data: CouponData[], today: Date): number | null {
+  const coupons = data.filter(isCoupon);
+  // В день выплаты купона начинается следующий период
+  const index = coupons.findIndex(item => item.date > today);
+  if (index === -1) return null;
+
+  const coupon = coupons[index];
+  // Без даты начала период начинается с предыдущего купона
+  const start = coupon.startDate || (index > 0 ? coupons[index - 1].date : null);
+  if (!start || coupon.amount === null) return null;
+  if (start > today) return 0;
+
+  const periodDays = daysBetween(start, coupon.date);
+  if (periodDays <= 0) return null;
+
+  return roundAmount(coupon.amount * daysBetween(start, today) / periodDays);
+}
+
+/**
+ * Эффективная доходность на дату биржи today
+ */
+function solveYield(price: number, flows: CashFlow[], today: Date): number | null {
+  if (flows.length === 0 || price <= 0) return null;
+
+  const presentValue = (rate: number) => flows.reduce((sum, flow) =>
+    sum + flow.amount / Math.pow(1 + rate, daysBetween(today, flow.date) / DAYS_IN_YEAR), 0);
+
+  let low = -0.99;
+  let high = 10;
+  if (presentValue(low) < price || presentValue(high) > price) {
+    return null;
+  }
+
+  for (let i = 0; i < 100; i++) {
+    const middle = (low + high) / 2;
+    if (presentValue(middle) > price) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  return roundYield((low + high) / 2 * 100);
+}
+
+/**
+ * Предстоящие выплаты на одну облигацию. Неизвестные купоны оцениваются по последнему известному.
+ */
+function cashFlows(data: CouponData[], today: Date): CashFlow[] {
+  let lastCoupon: number | null = null;
+  const flows: CashFlow[] = [];
+
+  data.forEach(item => {
+    if (item.type === 'offer') return;
+
+    const principal = !isCoupon(item);
+    const amount = item.amount ?? (principal ? null : lastCoupon);
+    if (!principal && item.amount !== null) {
+      lastCoupon = item.amount;
+    }
+
+    if (item.date > today && amount !== null) {
+      flows.push({ date: item.date, amount, principal });
+    }
+  });
+
+  // Без графика погашения номинал возвращается с последним купоном
+  if (!flows.some(flow => flow.principal) && flows.length > 0) {
+    const faceValue = currentFaceValue(data, today);
+    if (faceValue !== null) {
+      flows.push({ date: flows[flows.length - 1].date, amount: faceValue, principal: true });
+    }
+  }
+
+  return flows;
+}
+
+/**
+ * Непогашенный номинал: сумма предстоящих амортизаций и погашения или номинал текущего купона
+ */
+function currentFaceValue(data: CouponData[], today: Date): number | null {
+  const repayments = data.filter(item =>
+    (item.type === 'amortization' || item.type === 'maturity') && item.date > today && item.amount !== null
+  );
+  if (repayments.length > 0) {
+    return repayments.reduce((sum, item) => sum + item.amount!, 0);
+  }
+  return nextCoupon(data, today)?.faceValue ?? null;
+}
+
+function nextCoupon(data: CouponData[], today: Date): CouponData | undefined {
+  return data.find(item => isCoupon(item) && item.date > today);
+}
+
+function roundYield(value: number): number {
+  return Math.round(value * 100) / 100;
+}
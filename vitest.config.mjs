@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Виджет и ElementBuilder работают с DOM
+    environment: 'jsdom',
+  },
+});